@@ -1,6 +1,23 @@
-import { GameConfigBuilder, GameEngine } from './src'
+import { existsSync, unlinkSync } from 'fs'
+import { Campaign, GameConfigBuilder, GameEngine, KeyBindingError, KeyBindings, LevelLoader, LevelParseError, RendererFactory, RivalFactory, SaveGame, Themes } from './src'
+import type { IGameConfig } from './src'
 
-const config = new GameConfigBuilder()
+const SAVE_FILE = 'snake-save.json'
+
+const twoPlayer = process.argv.includes('--two-player')
+const autopilot = process.argv.includes('--autopilot')
+const autoBoard = process.argv.includes('--board=auto')
+
+const keysFile = process.argv.find((arg) => arg.startsWith('--keys='))?.slice('--keys='.length)
+const rendererName = process.argv.find((arg) => arg.startsWith('--renderer='))?.slice('--renderer='.length)
+const themeName = process.argv.find((arg) => arg.startsWith('--theme='))?.slice('--theme='.length)
+const campaignFiles = process.argv.find((arg) => arg.startsWith('--campaign='))?.slice('--campaign='.length).split(',')
+
+const rivals = process.argv
+  .filter((arg) => arg.startsWith('--rival='))
+  .map((arg) => arg.slice('--rival='.length))
+
+const builder = new GameConfigBuilder()
   .setDifficulty('high')
   .setBoardSize(25, 20)
   .setScorePerApple(10)
@@ -14,8 +31,110 @@ const config = new GameConfigBuilder()
   .setIcon('background', '⬛')
   .setExpandedRange(1)
   .setAllowCheats(true)
-  .build()
+  .setSaveFile(SAVE_FILE)
+  .setTwoPlayer(twoPlayer)
+  .setAutopilot(autopilot)
+
+rivals.forEach((rival) =>
+{
+  const behavior = RivalFactory.getAvailableBehaviors().find((b) => b === rival)
+
+  if (behavior)
+  {
+    builder.addRival(behavior)
+  }
+})
+
+if (autoBoard)
+{
+  builder.setBoardSize('auto')
+}
+
+const theme = Themes.getAvailableThemes().find((t) => t === themeName)
+
+if (theme)
+{
+  builder.setTheme(theme)
+}
+
+const renderer = RendererFactory.getAvailableRenderers().find((r) => r === rendererName)
+
+if (renderer)
+{
+  builder.setRenderer(renderer)
+}
+
+const buildConfig = (): IGameConfig =>
+{
+  try
+  {
+    if (keysFile)
+    {
+      builder.setKeyBindings(KeyBindings.load(keysFile))
+    }
+
+    return builder.build()
+  }
+
+  catch (error)
+  {
+    if (error instanceof KeyBindingError)
+    {
+      console.error(`Invalid key bindings: ${error.message}`)
+      process.exit(1)
+    }
+
+    throw error
+  }
+}
+
+const config = buildConfig()
+
+const loadGame = (): GameEngine =>
+{
+  if (!existsSync(SAVE_FILE))
+  {
+    return new GameEngine(config)
+  }
+
+  const save = SaveGame.load(SAVE_FILE)
+  unlinkSync(SAVE_FILE)
+
+  return GameEngine.fromSave(save)
+}
+
+const loadLevels = (files: string[]): IGameConfig[] =>
+{
+  // A level cannot be resumed on its own, so campaigns are not saved on quit
+  const baseConfig: IGameConfig = { ...config, game: { ...config.game, saveFile: undefined } }
+
+  try
+  {
+    return files.map((file) => LevelLoader.loadFile(file, baseConfig))
+  }
+
+  catch (error)
+  {
+    if (error instanceof LevelParseError)
+    {
+      console.error(`Invalid level: ${error.message}`)
+      process.exit(1)
+    }
+
+    throw error
+  }
+}
+
+if (campaignFiles)
+{
+  const campaign = new Campaign(loadLevels(campaignFiles))
+
+  campaign.start()
+}
 
-const game = new GameEngine(config)
+else
+{
+  const game = loadGame()
 
-game.start()
+  game.start()
+}
@@ -0,0 +1,130 @@
+import { readFileSync } from 'fs'
+import { RivalFactory, Simulation } from './src'
+import type { IGameConfig, ISimulationReport, IStatSummary, SimulationController } from './src'
+
+const USAGE = 'Usage: bun run simulate.ts [--games=100] [--seed=1] [--controller=autopilot|none|greedy|cautious|random] [--workers=N] [--max-ticks=5000] [--config=config.json]'
+
+/**
+ * Returns the value of a `--name=value` command line option.
+ *
+ * @param name - The name of the option.
+ * @returns The value of the option, or undefined if it is not set.
+ */
+const getOption = (name: string): string | undefined =>
+{
+  return process.argv.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3)
+}
+
+/**
+ * Returns the value of a numeric command line option, exiting on invalid values.
+ *
+ * @param name - The name of the option.
+ * @returns The number, or undefined if the option is not set.
+ */
+const getNumber = (name: string): number | undefined =>
+{
+  const value = getOption(name)
+
+  if (value === undefined)
+  {
+    return undefined
+  }
+
+  if (!Number.isInteger(Number(value)))
+  {
+    console.error(`Invalid --${name}: ${value}\n${USAGE}`)
+    process.exit(1)
+  }
+
+  return Number(value)
+}
+
+/**
+ * Returns the controller steering the snake, exiting on unknown controllers.
+ *
+ * @returns The controller, the autopilot by default.
+ */
+const getController = (): SimulationController =>
+{
+  const value = getOption('controller') ?? 'autopilot'
+  const controllers: SimulationController[] = ['autopilot', 'none', ...RivalFactory.getAvailableBehaviors()]
+  const controller = controllers.find((c) => c === value)
+
+  if (!controller)
+  {
+    console.error(`Unknown controller: ${value}, expected one of ${controllers.join(', ')}\n${USAGE}`)
+    process.exit(1)
+  }
+
+  return controller
+}
+
+/**
+ * Formats a summary of values as a table row.
+ *
+ * @param label - The name of the statistic.
+ * @param summary - The summary to format.
+ * @returns The formatted row.
+ */
+const formatSummary = (label: string, summary: IStatSummary): string =>
+{
+  return `${label.padEnd(10)}${summary.mean.toFixed(1).padStart(10)}${summary.median.toFixed(1).padStart(10)}${summary.max.toFixed(0).padStart(10)}`
+}
+
+/**
+ * Formats a count table, sorted by decreasing count.
+ *
+ * @param counts - The counts to format.
+ * @param games - The number of games, to show the count per game.
+ * @returns The formatted rows.
+ */
+const formatCounts = (counts: Partial<Record<string, number>>, games: number): string[] =>
+{
+  const entries = Object.entries(counts).sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))
+
+  if (entries.length === 0)
+  {
+    return ['  none']
+  }
+
+  return entries.map(([name, count]) => `  ${name.padEnd(16)}${String(count).padStart(8)}${((count ?? 0) / games).toFixed(2).padStart(10)}`)
+}
+
+/**
+ * Prints the statistics of a batch.
+ *
+ * @param report - The statistics to print.
+ */
+const printReport = (report: ISimulationReport): void =>
+{
+  console.log(`${report.games} games with ${report.controller} in ${(report.duration / 1000).toFixed(1)}s\n`)
+  console.log(`${''.padEnd(10)}${'mean'.padStart(10)}${'median'.padStart(10)}${'max'.padStart(10)}`)
+  console.log(formatSummary('score', report.score))
+  console.log(formatSummary('length', report.length))
+  console.log(formatSummary('ticks', report.ticks))
+  console.log(`\nPower-ups collected${'total'.padStart(7)}${'per game'.padStart(10)}`)
+  console.log(formatCounts(report.powerUps, report.games).join('\n'))
+  console.log(`\nEnd of game${'games'.padStart(15)}${'share'.padStart(10)}`)
+  console.log(formatCounts(report.causes, report.games).join('\n'))
+}
+
+const configFile = getOption('config')
+const config: Partial<IGameConfig> = configFile ? JSON.parse(readFileSync(configFile, 'utf-8')) : {}
+
+const simulation = new Simulation(
+{
+  games: getNumber('games') ?? 100,
+  seed: getNumber('seed') ?? 1,
+  controller: getController(),
+  workers: getNumber('workers'),
+  maxTicks: getNumber('max-ticks'),
+  config
+})
+
+simulation.run()
+  .then(printReport)
+  .catch((error) =>
+  {
+    console.error(`Simulation failed: ${error.message}`)
+    process.exit(1)
+  })
@@ -0,0 +1,191 @@
+import type { Position } from '@type/global'
+import { BaseRivalStrategy, type IRivalMove, type IRivalView } from './BaseRivalStrategy'
+import { MOVEMENT_DIRECTIONS } from '@config/defaults'
+import { BoardUtils } from '@utils/BoardUtils'
+import { MathUtils } from '@utils/MathUtils'
+
+/**
+ * Autopilot steers a snake to the apple along the shortest safe path.
+ *
+ * Each tick it searches the board breadth-first, wrapping over the edges of a
+ * wrapping board, for a path from the head to the apple. The path is only taken
+ * if, once the apple is eaten, the snake can still reach its own tail, so it never
+ * walls itself in. Otherwise it stalls by following its tail, or as a last resort
+ * moves towards the largest free area.
+ */
+export class AutopilotStrategy extends BaseRivalStrategy
+{
+  protected override pickMove(moves: IRivalMove[], view: IRivalView): IRivalMove
+  {
+    const pathToApple = this.findPath(view.snake[0]!, view.apple, this.getBlocked(view.occupied, view.snake))
+
+    if (pathToApple && this.isTailReachableAfter(pathToApple, view))
+    {
+      const move = moves.find((m) => MathUtils.positionsEqual(m.position, pathToApple[0]!))
+
+      if (move)
+      {
+        return move
+      }
+    }
+
+    const stallingMove = this.findStallingMove(moves, view)
+
+    if (stallingMove)
+    {
+      return stallingMove
+    }
+
+    const limit = this.board.width * this.board.height
+
+    return moves.reduce((best, move) =>
+    {
+      return this.countReachable(move.position, view, limit) > this.countReachable(best.position, view, limit) ? move : best
+    })
+  }
+
+  /**
+   * Finds the shortest path between two cells.
+   *
+   * @param from - The position to start from, not part of the path.
+   * @param to - The position to reach.
+   * @param blocked - The keys of the cells that cannot be crossed.
+   * @returns The positions to move through, ending with the target, or null if it cannot be reached.
+   */
+  private findPath(from: Position, to: Position, blocked: Set<string>): Position[] | null
+  {
+    const target = BoardUtils.toKey(to)
+    const previous = new Map<string, Position | null>([[BoardUtils.toKey(from), null]])
+    const queue: Position[] = [from]
+
+    while (queue.length > 0)
+    {
+      const current = queue.shift()!
+
+      if (BoardUtils.toKey(current) === target && current !== from)
+      {
+        const path: Position[] = []
+        let cursor: Position | null = current
+
+        while (cursor && !MathUtils.positionsEqual(cursor, from))
+        {
+          path.unshift(cursor)
+          cursor = previous.get(BoardUtils.toKey(cursor)) ?? null
+        }
+
+        return path
+      }
+
+      for (const direction of Object.values(MOVEMENT_DIRECTIONS))
+      {
+        const next = this.step(current, direction)
+
+        if (!next || this.positionValidator.isObstacle(next))
+        {
+          continue
+        }
+
+        const key = BoardUtils.toKey(next)
+
+        if (previous.has(key) || (blocked.has(key) && key !== target))
+        {
+          continue
+        }
+
+        previous.set(key, current)
+        queue.push(next)
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Checks if the snake can still reach its tail after following a path to the apple and eating it.
+   *
+   * @param path - The path to the apple.
+   * @param view - What the snake sees of the board.
+   * @returns True if the tail is reachable from the apple, false otherwise.
+   */
+  private isTailReachableAfter(path: Position[], view: IRivalView): boolean
+  {
+    const body = [...[...path].reverse(), ...view.snake].slice(0, view.snake.length + 1)
+
+    if (body.length < 2)
+    {
+      return true
+    }
+
+    const others = this.withoutSegments(view.occupied, view.snake)
+
+    return this.findPath(body[0]!, body[body.length - 1]!, this.getBlocked([...others, ...body], body)) !== null
+  }
+
+  /**
+   * Finds a move that keeps the tail reachable, preferring the one farthest from the tail
+   * to waste as little room as possible while waiting for a safe path to the apple.
+   *
+   * @param moves - The safe moves.
+   * @param view - What the snake sees of the board.
+   * @returns The stalling move, or null if no move keeps the tail reachable.
+   */
+  private findStallingMove(moves: IRivalMove[], view: IRivalView): IRivalMove | null
+  {
+    if (view.snake.length < 2)
+    {
+      return null
+    }
+
+    const others = this.withoutSegments(view.occupied, view.snake)
+    let best: IRivalMove | null = null
+    let bestLength = -1
+
+    for (const move of moves)
+    {
+      const body = [move.position, ...view.snake.slice(0, -1)]
+      const path = this.findPath(move.position, body[body.length - 1]!, this.getBlocked([...others, ...body], body))
+
+      if (path && path.length > bestLength)
+      {
+        best = move
+        bestLength = path.length
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Returns the keys of the cells a path cannot cross, leaving the tail of the snake free
+   * since it moves away as the head advances.
+   *
+   * @param occupied - The positions covered by the snakes.
+   * @param snake - The segments of the snake being steered, head first.
+   * @returns The keys of the blocked cells.
+   */
+  private getBlocked(occupied: Position[], snake: Position[]): Set<string>
+  {
+    const blocked = new Set(occupied.map((position) => BoardUtils.toKey(position)))
+
+    if (snake.length > 1)
+    {
+      blocked.delete(BoardUtils.toKey(snake[snake.length - 1]!))
+    }
+
+    return blocked
+  }
+
+  /**
+   * Removes the segments of a snake from a list of occupied positions.
+   *
+   * @param occupied - The positions covered by the snakes.
+   * @param segments - The segments to remove.
+   * @returns The positions covered by the other snakes.
+   */
+  private withoutSegments(occupied: Position[], segments: Position[]): Position[]
+  {
+    const keys = new Set(segments.map((segment) => BoardUtils.toKey(segment)))
+
+    return occupied.filter((position) => !keys.has(BoardUtils.toKey(position)))
+  }
+}
@@ -0,0 +1,225 @@
+import type { BoardEdges, Direction, IBoardConfig, Position } from '@type/global'
+import { MOVEMENT_DIRECTIONS } from '@config/defaults'
+import { PositionValidator } from '@utils/PositionValidator'
+import { SystemRandom, type IRandom } from '@utils/Random'
+import { BoardUtils } from '@utils/BoardUtils'
+import { MathUtils } from '@utils/MathUtils'
+
+/**
+ * What a rival snake sees of the board before choosing its next direction.
+ */
+export interface IRivalView
+{
+  snake: Position[]
+  direction: Direction
+  apple: Position
+  powerUps: Position[]
+  occupied: Position[]
+  heads: Position[]
+}
+
+/**
+ * A move a rival snake can make without dying on the next tick.
+ */
+export interface IRivalMove
+{
+  direction: Direction
+  position: Position
+}
+
+export interface IRivalStrategy
+{
+  chooseDirection(view: IRivalView): Direction
+}
+
+/**
+ * Abstract base class for rival snake behaviors.
+ *
+ * Provides the board-aware helpers every behavior needs: the safe moves
+ * from the current head, distances on wrapping boards and flood fills.
+ */
+export abstract class BaseRivalStrategy implements IRivalStrategy
+{
+  protected readonly board: IBoardConfig
+  protected readonly random: IRandom
+  protected readonly positionValidator: PositionValidator
+  private readonly edges: BoardEdges
+
+  constructor(board: IBoardConfig, random: IRandom = new SystemRandom())
+  {
+    this.board = board
+    this.random = random
+    this.positionValidator = new PositionValidator(board)
+    this.edges = board.edges ?? 'wrap'
+  }
+
+  /**
+   * Chooses the direction of the next tick, keeping the current one if every move is deadly.
+   *
+   * @param view - What the snake sees of the board.
+   * @returns The direction to follow.
+   */
+  chooseDirection(view: IRivalView): Direction
+  {
+    const moves = this.getSafeMoves(view)
+
+    if (moves.length === 0)
+    {
+      return view.direction
+    }
+
+    return this.pickMove(moves, view).direction
+  }
+
+  /**
+   * Picks one of the safe moves.
+   *
+   * @param moves - The safe moves, never empty.
+   * @param view - What the snake sees of the board.
+   * @returns The chosen move.
+   */
+  protected abstract pickMove(moves: IRivalMove[], view: IRivalView): IRivalMove
+
+  /**
+   * Returns the moves that do not hit a wall or a snake on the next tick.
+   * The snake's own tail is considered free since it moves away at the same time.
+   *
+   * @param view - What the snake sees of the board.
+   * @returns The safe moves, straight ahead first.
+   */
+  protected getSafeMoves(view: IRivalView): IRivalMove[]
+  {
+    const head = view.snake[0]!
+    const blocked = this.withoutOwnTail(view)
+
+    return this.getCandidateDirections(view)
+      .map((direction) => ({ direction, position: this.step(head, direction) }))
+      .filter((move): move is IRivalMove => move.position !== null && this.positionValidator.isFree(move.position, blocked))
+  }
+
+  /**
+   * Returns the distance between two cells, taking shortcuts over the edges of a wrapping board.
+   *
+   * @param from - The first position.
+   * @param to - The second position.
+   * @returns The number of moves between the positions, ignoring obstacles.
+   */
+  protected distance(from: Position, to: Position): number
+  {
+    if (this.edges === 'walls')
+    {
+      return MathUtils.manhattanDistance(from, to)
+    }
+
+    const dx = Math.abs(from[0] - to[0])
+    const dy = Math.abs(from[1] - to[1])
+
+    return Math.min(dx, this.board.width - dx) + Math.min(dy, this.board.height - dy)
+  }
+
+  /**
+   * Returns the distance from a position to the nearest apple or power-up.
+   *
+   * @param position - The position to measure from.
+   * @param view - What the snake sees of the board.
+   * @returns The distance to the closest target.
+   */
+  protected distanceToTarget(position: Position, view: IRivalView): number
+  {
+    return Math.min(...[view.apple, ...view.powerUps].map((target) => this.distance(position, target)))
+  }
+
+  /**
+   * Counts the free cells reachable from a position, up to a limit.
+   *
+   * @param start - The position to start from.
+   * @param view - What the snake sees of the board.
+   * @param limit - The count at which to stop searching.
+   * @returns The number of reachable free cells, at most the limit.
+   */
+  protected countReachable(start: Position, view: IRivalView, limit: number): number
+  {
+    const blocked = new Set(this.withoutOwnTail(view).map((position) => BoardUtils.toKey(position)))
+    const visited = new Set([BoardUtils.toKey(start)])
+    const queue: Position[] = [start]
+
+    while (queue.length > 0 && visited.size < limit)
+    {
+      const current = queue.shift()!
+
+      Object.values(MOVEMENT_DIRECTIONS).forEach((direction) =>
+      {
+        const next = this.step(current, direction)
+
+        if (!next || this.positionValidator.isObstacle(next))
+        {
+          return
+        }
+
+        const key = BoardUtils.toKey(next)
+
+        if (!visited.has(key) && !blocked.has(key))
+        {
+          visited.add(key)
+          queue.push(next)
+        }
+      })
+    }
+
+    return Math.min(visited.size, limit)
+  }
+
+  /**
+   * Returns the position one move away, wrapped on a wrapping board.
+   *
+   * @param position - The position to move from.
+   * @param direction - The direction to move in.
+   * @returns The next position, or null if it is off a walled board.
+   */
+  protected step(position: Position, direction: Direction): Position | null
+  {
+    const next: Position = [position[0] + direction[0], position[1] + direction[1]]
+
+    if (this.edges === 'wrap')
+    {
+      return this.positionValidator.wrapPosition(next)
+    }
+
+    return this.positionValidator.isValidPosition(next) ? next : null
+  }
+
+  /**
+   * Returns every direction except turning back onto the snake's own body.
+   *
+   * @param view - What the snake sees of the board.
+   * @returns The directions to consider, straight ahead first.
+   */
+  private getCandidateDirections(view: IRivalView): Direction[]
+  {
+    const reverse: Direction = [-view.direction[0], -view.direction[1]]
+
+    return [view.direction, ...Object.values(MOVEMENT_DIRECTIONS)]
+      .filter((direction, index, all) => all.findIndex((d) => MathUtils.positionsEqual(d, direction)) === index)
+      .filter((direction) => view.snake.length === 1 || !MathUtils.positionsEqual(direction, reverse))
+  }
+
+  /**
+   * Returns the occupied positions without the snake's own tail.
+   *
+   * @param view - What the snake sees of the board.
+   * @returns The positions a move must avoid.
+   */
+  private withoutOwnTail(view: IRivalView): Position[]
+  {
+    const tail = view.snake[view.snake.length - 1]!
+
+    if (view.snake.length === 1)
+    {
+      return view.occupied
+    }
+
+    const index = view.occupied.findIndex((position) => MathUtils.positionsEqual(position, tail))
+
+    return view.occupied.filter((_, i) => i !== index)
+  }
+}
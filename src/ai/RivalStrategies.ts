@@ -0,0 +1,130 @@
+import type { IBoardConfig, RivalBehavior } from '@type/global'
+import { BaseRivalStrategy, type IRivalMove, type IRivalStrategy, type IRivalView } from './BaseRivalStrategy'
+import { SystemRandom, type IRandom } from '@utils/Random'
+import { MathUtils } from '@utils/MathUtils'
+
+/**
+ * Strategy for greedy rivals.
+ * Heads straight for the nearest apple or power-up, only avoiding moves that kill it on the next tick.
+ */
+export class GreedyRivalStrategy extends BaseRivalStrategy
+{
+  protected override pickMove(moves: IRivalMove[], view: IRivalView): IRivalMove
+  {
+    return moves.reduce((best, move) =>
+    {
+      return this.distanceToTarget(move.position, view) < this.distanceToTarget(best.position, view) ? move : best
+    })
+  }
+}
+
+/**
+ * Strategy for cautious rivals.
+ * Prefers moves that keep enough room to fit its body and stay clear of other snakes' heads,
+ * then goes for the nearest apple or power-up.
+ */
+export class CautiousRivalStrategy extends BaseRivalStrategy
+{
+  protected override pickMove(moves: IRivalMove[], view: IRivalView): IRivalMove
+  {
+    const limit = view.snake.length * 2 + 4
+
+    const ranked = moves.map((move) =>
+    {
+      const room = this.countReachable(move.position, view, limit)
+      const nearHead = view.heads.some((head) => this.distance(head, move.position) <= 1)
+
+      return { move, cramped: room < view.snake.length + 1, nearHead, room }
+    })
+
+    return ranked.reduce((best, candidate) =>
+    {
+      if (candidate.cramped !== best.cramped)
+      {
+        return candidate.cramped ? best : candidate
+      }
+
+      if (candidate.nearHead !== best.nearHead)
+      {
+        return candidate.nearHead ? best : candidate
+      }
+
+      if (candidate.cramped && candidate.room !== best.room)
+      {
+        return candidate.room > best.room ? candidate : best
+      }
+
+      const candidateDistance = this.distanceToTarget(candidate.move.position, view)
+      const bestDistance = this.distanceToTarget(best.move.position, view)
+
+      return candidateDistance < bestDistance ? candidate : best
+    }).move
+  }
+}
+
+/**
+ * Strategy for random rivals.
+ * Wanders around, usually keeping its direction and turning at random, without running into anything.
+ */
+export class RandomRivalStrategy extends BaseRivalStrategy
+{
+  private readonly turnProbability: number
+
+  constructor(board: IBoardConfig, random?: IRandom, turnProbability: number = 0.25)
+  {
+    super(board, random)
+
+    this.turnProbability = turnProbability
+  }
+
+  protected override pickMove(moves: IRivalMove[], view: IRivalView): IRivalMove
+  {
+    const straight = moves.find((move) => MathUtils.positionsEqual(move.direction, view.direction))
+
+    if (straight && !MathUtils.shouldHappen(this.turnProbability, this.random))
+    {
+      return straight
+    }
+
+    return moves[MathUtils.randomBetween(0, moves.length - 1, this.random)]!
+  }
+}
+
+/**
+ * Factory class for creating rival strategies.
+ */
+export class RivalFactory
+{
+  /**
+   * Maps rival behaviors to their strategies.
+   */
+  private static strategyMap: Record<RivalBehavior, (board: IBoardConfig, random: IRandom) => IRivalStrategy> =
+  {
+    greedy: (board, random) => new GreedyRivalStrategy(board, random),
+    cautious: (board, random) => new CautiousRivalStrategy(board, random),
+    random: (board, random) => new RandomRivalStrategy(board, random)
+  }
+
+  /**
+   * Creates the strategy steering a rival snake.
+   *
+   * @param behavior - The behavior of the rival.
+   * @param board - The board the rival plays on.
+   * @param random - The random source for the rival's decisions.
+   * @returns A new rival strategy.
+   */
+  static createStrategy(behavior: RivalBehavior, board: IBoardConfig, random: IRandom = new SystemRandom()): IRivalStrategy
+  {
+    return this.strategyMap[behavior](board, random)
+  }
+
+  /**
+   * Returns the list of available rival behaviors.
+   *
+   * @returns An array of rival behaviors.
+   */
+  static getAvailableBehaviors(): RivalBehavior[]
+  {
+    return Object.keys(this.strategyMap) as RivalBehavior[]
+  }
+}
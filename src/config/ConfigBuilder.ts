@@ -1,5 +1,10 @@
 import { DEFAULT_CONFIG } from '@config/defaults'
-import type { IGameConfig } from '@type/global'
+import type { BoardEdges, ColorMode, IGameConfig, IKeyBindings, ITheme, KeyAction, Movement, Position, RendererType, RivalBehavior } from '@type/global'
+import type { IClock } from '@utils/Clock'
+import type { IRenderer } from '@renderers/Renderer'
+import { BoardUtils } from '@utils/BoardUtils'
+import { KeyBindings } from '@config/KeyBindings'
+import { Themes } from '@renderers/Themes'
 
 /**
  * A builder class for creating and modifying game configurations.
@@ -8,6 +13,8 @@ import type { IGameConfig } from '@type/global'
 export class GameConfigBuilder
 {
   private config: IGameConfig
+  private clock?: IClock
+  private renderer?: IRenderer
 
   constructor()
   {
@@ -29,15 +36,241 @@ export class GameConfigBuilder
 
   /**
    * Sets the size of the game board.
+   * With 'auto', the board fills the terminal when the game starts, and keeps the
+   * configured width and height when there is no terminal, e.g. in headless mode.
    *
-   * @param width - The width of the board.
+   * @param width - The width of the board, or 'auto' to fit the terminal.
    * @param height - The height of the board.
    * @returns The current instance of GameConfigBuilder for method chaining.
    */
-  setBoardSize(width: number, height: number): this
+  setBoardSize(width: number | 'auto', height?: number): this
   {
+    if (width === 'auto')
+    {
+      this.config.board.size = 'auto'
+
+      return this
+    }
+
+    delete this.config.board.size
     this.config.board.width = width
-    this.config.board.height = height
+    this.config.board.height = height ?? this.config.board.height
+
+    return this
+  }
+
+  /**
+   * Sets how the edges of the board behave.
+   *
+   * @param edges - 'wrap' to come out on the opposite side, 'walls' to end the game on contact.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setBoardEdges(edges: BoardEdges): this
+  {
+    this.config.board.edges = edges
+
+    return this
+  }
+
+  /**
+   * Sets the wall cells of the board.
+   *
+   * @param obstacles - The positions of the walls.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setObstacles(obstacles: Position[]): this
+  {
+    this.config.board.obstacles = obstacles.map(([x, y]) => [x, y])
+
+    return this
+  }
+
+  /**
+   * Sets the board size and walls from an ASCII layout where '#' marks a wall.
+   *
+   * @param layout - The layout, one line per board row.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setLayout(layout: string): this
+  {
+    const { width, height, obstacles } = BoardUtils.parseLayout(layout)
+
+    return this.setBoardSize(width, height).setObstacles(obstacles)
+  }
+
+  /**
+   * Sets the position the snake starts from.
+   *
+   * @param x - The column of the snake's head.
+   * @param y - The row of the snake's head.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setStartPosition(x: number, y: number): this
+  {
+    this.config.game.startPosition = [x, y]
+
+    return this
+  }
+
+  /**
+   * Sets the direction the snake starts moving in.
+   *
+   * @param direction - The start direction.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setStartDirection(direction: Movement): this
+  {
+    this.config.game.startDirection = direction
+
+    return this
+  }
+
+  /**
+   * Sets the score the game starts with, e.g. to carry it over from a previous level.
+   *
+   * @param score - The initial score.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setInitialScore(score: number): this
+  {
+    this.config.game.initialScore = Math.max(0, score)
+
+    return this
+  }
+
+  /**
+   * Sets a file the replay of the game is written to when the game is over.
+   *
+   * @param path - The path of the replay file.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setReplayFile(path: string): this
+  {
+    this.config.game.replayFile = path
+
+    return this
+  }
+
+  /**
+   * Sets the file the game is written to by the "save and quit" key.
+   *
+   * @param path - The path of the save file.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setSaveFile(path: string): this
+  {
+    this.config.game.saveFile = path
+
+    return this
+  }
+
+  /**
+   * Sets a file of commands driving the game instead of the keyboard, one command per line.
+   * See CommandInputService for the commands.
+   *
+   * @param path - The path of the command file.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setInputScript(path: string): this
+  {
+    this.config.game.inputScript = path
+
+    return this
+  }
+
+  /**
+   * Lets the players control the game from the keyboard, or from commands on the standard input
+   * when it is not a terminal. Without it only Ctrl+C stops the game, e.g. while a replay plays.
+   *
+   * @param enabled - Whether the game reads the keyboard (default is true).
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setKeyboard(enabled: boolean = true): this
+  {
+    this.config.game.keyboard = enabled
+
+    return this
+  }
+
+  /**
+   * Enables the local two-player mode, with a second snake steered with WASD.
+   *
+   * @param enabled - Whether two players share the board (default is true).
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setTwoPlayer(enabled: boolean = true): this
+  {
+    this.config.game.twoPlayer = enabled
+
+    return this
+  }
+
+  /**
+   * Starts the game with player one's snake steered by the autopilot.
+   * The autopilot can also be toggled during the game with the autopilot key, Tab by default.
+   *
+   * @param enabled - Whether the autopilot is engaged from the start (default is true).
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setAutopilot(enabled: boolean = true): this
+  {
+    this.config.game.autopilot = enabled
+
+    return this
+  }
+
+  /**
+   * Adds a computer-controlled rival snake competing for the same apples and power-ups.
+   *
+   * @param behavior - How the rival plays: 'greedy', 'cautious' or 'random'.
+   * @param icon - The icon of the rival, picked from the rival icons if not set.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  addRival(behavior: RivalBehavior, icon?: string): this
+  {
+    const rivals = this.config.game.rivals ?? []
+
+    rivals.push(icon ? { behavior, icon } : { behavior })
+    this.config.game.rivals = rivals
+
+    return this
+  }
+
+  /**
+   * Sets the name of the level.
+   *
+   * @param name - The name shown for the level.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setLevelName(name: string): this
+  {
+    this.config.level = { ...this.config.level, name }
+
+    return this
+  }
+
+  /**
+   * Sets the score that completes the level.
+   *
+   * @param score - The target score.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setTargetScore(score: number): this
+  {
+    this.config.level = { ...this.config.level, targetScore: Math.max(0, score) }
+
+    return this
+  }
+
+  /**
+   * Sets the snake length that completes the level.
+   *
+   * @param length - The target length.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setTargetLength(length: number): this
+  {
+    this.config.level = { ...this.config.level, targetLength: Math.max(1, length) }
 
     return this
   }
@@ -108,6 +341,9 @@ export class GameConfigBuilder
 
   /**
    * Sets the icon for a specific game element.
+   * Player one's snake can also be drawn with sprites telling its head, body and tail apart,
+   * e.g. 'snakeHeadUp', 'snakeBodyVertical', 'snakeBodyUpLeft' or 'snakeTailDown'.
+   * Sprites that are not set fall back to the 'snake' icon.
    *
    * @param iconType - The type of icon to set.
    * @param icon - The icon string to set.
@@ -120,6 +356,37 @@ export class GameConfigBuilder
     return this
   }
 
+  /**
+   * Sets the keys bound to an action, replacing its current keys.
+   * Conflicts with the keys of other actions are reported when the configuration is built.
+   *
+   * @param action - The action to bind, e.g. 'up', 'pause' or 'autopilot'.
+   * @param keys - The keys triggering the action, e.g. ['left', 'h'], or none to disable it.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setKeyBinding(action: KeyAction, keys: string[]): this
+  {
+    this.config.keyBindings[action] = KeyBindings.normalize(keys)
+
+    return this
+  }
+
+  /**
+   * Sets the keys bound to several actions, leaving the other actions unchanged.
+   *
+   * @param bindings - The keys of each action to rebind.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setKeyBindings(bindings: Partial<IKeyBindings>): this
+  {
+    Object.entries(bindings).forEach(([action, keys]) =>
+    {
+      this.setKeyBinding(action as KeyAction, keys)
+    })
+
+    return this
+  }
+
   /**
    * Sets the expanded range for the game.
    *
@@ -133,14 +400,130 @@ export class GameConfigBuilder
     return this
   }
 
+  /**
+   * Runs the game without renderer and input service, unless a renderer is set with setRenderer().
+   * A headless game is advanced tick by tick through GameEngine.step().
+   *
+   * @param headless - Whether to run headless (default is true).
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setHeadless(headless: boolean = true): this
+  {
+    this.config.game.headless = headless
+
+    return this
+  }
+
+  /**
+   * Sets the seed for every random decision in the game.
+   * Two games with the same seed and the same inputs play out identically.
+   *
+   * @param seed - The seed, truncated to an unsigned 32-bit integer.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setSeed(seed: number): this
+  {
+    this.config.game.seed = seed >>> 0
+
+    return this
+  }
+
+  /**
+   * Sets the clock that drives the game loop and every timed effect.
+   * The clock is shared by reference rather than copied into the configuration.
+   *
+   * @param clock - The clock to use, e.g. a ManualClock for deterministic runs.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setClock(clock: IClock): this
+  {
+    this.clock = clock
+
+    return this
+  }
+
+  /**
+   * Sets how the game is drawn: one of the built-in terminal renderers,
+   * or any renderer, e.g. to embed the game in another host.
+   * A renderer instance is shared by reference rather than copied into the configuration,
+   * and is used even by a headless game.
+   *
+   * @param renderer - 'auto', 'emoji', 'ascii', 'box', 'color' or 'none', or the renderer to draw with.
+   * 'auto', the default, falls back to 'ascii' on terminals that are not UTF-8.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setRenderer(renderer: RendererType | IRenderer): this
+  {
+    if (typeof renderer === 'string')
+    {
+      this.config.game.renderer = renderer
+    }
+
+    else
+    {
+      this.renderer = renderer
+    }
+
+    return this
+  }
+
+  /**
+   * Sets the color theme of the game and draws it with the 'color' renderer on UTF-8 terminals,
+   * unless another renderer is set with setRenderer().
+   *
+   * @param theme - The name of a built-in theme, or a custom theme.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   * @throws ThemeError if no built-in theme has this name.
+   */
+  setTheme(theme: string | ITheme): this
+  {
+    this.config.theme = typeof theme === 'string' ? Themes.get(theme) : theme
+
+    return this
+  }
+
+  /**
+   * Sets the colors the themed renderer uses: 'auto' detects what the terminal supports.
+   *
+   * @param colorMode - 'auto', 'truecolor', 'ansi256' or 'none'.
+   * @returns The current instance of GameConfigBuilder for method chaining.
+   */
+  setColorMode(colorMode: ColorMode | 'auto'): this
+  {
+    this.config.game.colorMode = colorMode
+
+    return this
+  }
+
   /**
    * Builds and returns the complete game configuration object.
    *
    * @returns The complete game configuration as an IGameConfig object.
+   * @throws KeyBindingError if a key is bound to more than one action in use.
+   * @throws ThemeError if the theme misses a style or has a malformed color.
    */
   build(): IGameConfig
   {
-    return JSON.parse(JSON.stringify(this.config))
+    KeyBindings.validate(this.config.keyBindings, this.config.game.twoPlayer ?? false)
+
+    if (this.config.theme)
+    {
+      Themes.validate(this.config.theme)
+    }
+
+    const config: IGameConfig = JSON.parse(JSON.stringify(this.config))
+
+    if (this.clock)
+    {
+      config.clock = this.clock
+    }
+
+    if (this.renderer)
+    {
+      config.renderer = this.renderer
+    }
+
+    return config
   }
 
   /**
@@ -164,6 +547,26 @@ export class GameConfigBuilder
       {
         builder.config.board.height = partialConfig.board.height
       }
+
+      if (partialConfig.board.edges !== undefined)
+      {
+        builder.config.board.edges = partialConfig.board.edges
+      }
+
+      if (partialConfig.board.size !== undefined)
+      {
+        builder.config.board.size = partialConfig.board.size
+      }
+
+      if (partialConfig.board.layout !== undefined)
+      {
+        builder.setLayout(partialConfig.board.layout)
+      }
+
+      if (partialConfig.board.obstacles !== undefined)
+      {
+        builder.setObstacles(partialConfig.board.obstacles)
+      }
     }
 
     if (partialConfig.game)
@@ -192,6 +595,76 @@ export class GameConfigBuilder
       {
         builder.config.game.allowCheats = partialConfig.game.allowCheats
       }
+
+      if (partialConfig.game.seed !== undefined)
+      {
+        builder.setSeed(partialConfig.game.seed)
+      }
+
+      if (partialConfig.game.headless !== undefined)
+      {
+        builder.config.game.headless = partialConfig.game.headless
+      }
+
+      if (partialConfig.game.startPosition !== undefined)
+      {
+        builder.setStartPosition(...partialConfig.game.startPosition)
+      }
+
+      if (partialConfig.game.startDirection !== undefined)
+      {
+        builder.config.game.startDirection = partialConfig.game.startDirection
+      }
+
+      if (partialConfig.game.initialScore !== undefined)
+      {
+        builder.setInitialScore(partialConfig.game.initialScore)
+      }
+
+      if (partialConfig.game.replayFile !== undefined)
+      {
+        builder.config.game.replayFile = partialConfig.game.replayFile
+      }
+
+      if (partialConfig.game.saveFile !== undefined)
+      {
+        builder.config.game.saveFile = partialConfig.game.saveFile
+      }
+
+      if (partialConfig.game.inputScript !== undefined)
+      {
+        builder.config.game.inputScript = partialConfig.game.inputScript
+      }
+
+      if (partialConfig.game.keyboard !== undefined)
+      {
+        builder.config.game.keyboard = partialConfig.game.keyboard
+      }
+
+      if (partialConfig.game.renderer !== undefined)
+      {
+        builder.config.game.renderer = partialConfig.game.renderer
+      }
+
+      if (partialConfig.game.colorMode !== undefined)
+      {
+        builder.config.game.colorMode = partialConfig.game.colorMode
+      }
+
+      if (partialConfig.game.twoPlayer !== undefined)
+      {
+        builder.config.game.twoPlayer = partialConfig.game.twoPlayer
+      }
+
+      if (partialConfig.game.autopilot !== undefined)
+      {
+        builder.config.game.autopilot = partialConfig.game.autopilot
+      }
+
+      if (partialConfig.game.rivals !== undefined)
+      {
+        builder.config.game.rivals = partialConfig.game.rivals.map((rival) => ({ ...rival }))
+      }
     }
 
     if (partialConfig.powerUps)
@@ -217,6 +690,31 @@ export class GameConfigBuilder
       })
     }
 
+    if (partialConfig.level)
+    {
+      builder.config.level = { ...partialConfig.level }
+    }
+
+    if (partialConfig.theme)
+    {
+      builder.setTheme(JSON.parse(JSON.stringify(partialConfig.theme)))
+    }
+
+    if (partialConfig.keyBindings)
+    {
+      builder.setKeyBindings(partialConfig.keyBindings)
+    }
+
+    if (partialConfig.clock)
+    {
+      builder.setClock(partialConfig.clock)
+    }
+
+    if (partialConfig.renderer)
+    {
+      builder.setRenderer(partialConfig.renderer)
+    }
+
     if (partialConfig.icons)
     {
       Object.entries(partialConfig.icons).forEach(([key, value]) =>
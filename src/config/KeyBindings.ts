@@ -0,0 +1,171 @@
+import type { IKeyBindings, KeyAction } from '@type/global'
+import { DEFAULT_CONFIG, PLAYER_MOVEMENT_ACTIONS } from '@config/defaults'
+import { readFileSync } from 'fs'
+
+/**
+ * Error raised for key bindings that cannot be used, e.g. a key bound to two actions.
+ */
+export class KeyBindingError extends Error
+{
+  constructor(message: string)
+  {
+    super(message)
+
+    this.name = 'KeyBindingError'
+  }
+}
+
+/**
+ * Actions steering player two's snake.
+ */
+const PLAYER_TWO_ACTIONS: KeyAction[] = Object.values(PLAYER_MOVEMENT_ACTIONS[1]!)
+
+/**
+ * KeyBindings checks and loads the keys bound to each action.
+ *
+ * Keys are named as in Node's readline keypress events: letters and digits
+ * in lowercase, and `up`, `down`, `left`, `right`, `space`, `tab`, `escape`,
+ * `backspace`, `return`... for the other keys. An action can have several keys,
+ * e.g. the arrows and HJKL, or none at all to disable it.
+ *
+ * A key bindings file is a JSON object of the actions to rebind:
+ *
+ * ```
+ * {
+ *   "up": ["up", "k"],
+ *   "down": ["down", "j"],
+ *   "left": ["left", "h"],
+ *   "right": ["right", "l"]
+ * }
+ * ```
+ */
+export class KeyBindings
+{
+  /**
+   * Returns every action a key can be bound to.
+   *
+   * @returns The actions.
+   */
+  static getActions(): KeyAction[]
+  {
+    return Object.keys(DEFAULT_CONFIG.keyBindings) as KeyAction[]
+  }
+
+  /**
+   * Normalizes key names, trimmed, lowercase and without duplicates.
+   *
+   * @param keys - The names of the keys.
+   * @returns The normalized names.
+   * @throws KeyBindingError if a key name is empty.
+   */
+  static normalize(keys: string[]): string[]
+  {
+    const normalized = keys.map((key) =>
+    {
+      if (typeof key !== 'string' || key.trim() === '')
+      {
+        throw new KeyBindingError(`Invalid key name: ${JSON.stringify(key)}`)
+      }
+
+      return key.trim().toLowerCase()
+    })
+
+    return [...new Set(normalized)]
+  }
+
+  /**
+   * Checks that no key is bound to more than one action.
+   * Player two's keys are unused in a single player game, so they are only checked in two player mode.
+   *
+   * @param bindings - The keys bound to each action.
+   * @param twoPlayer - Whether player two's keys are used.
+   * @throws KeyBindingError listing every conflicting key.
+   */
+  static validate(bindings: IKeyBindings, twoPlayer: boolean = false): void
+  {
+    const actionsByKey = new Map<string, KeyAction[]>()
+
+    Object.entries(bindings).forEach(([action, keys]) =>
+    {
+      if (!twoPlayer && PLAYER_TWO_ACTIONS.includes(action as KeyAction))
+      {
+        return
+      }
+
+      keys.forEach((key) =>
+      {
+        actionsByKey.set(key, [...actionsByKey.get(key) ?? [], action as KeyAction])
+      })
+    })
+
+    const conflicts = [...actionsByKey.entries()]
+      .filter(([, actions]) => actions.length > 1)
+      .map(([key, actions]) => `"${key}" is bound to ${actions.join(', ')}`)
+
+    if (conflicts.length > 0)
+    {
+      throw new KeyBindingError(`Conflicting key bindings: ${conflicts.join('; ')}`)
+    }
+  }
+
+  /**
+   * Parses key bindings from JSON.
+   *
+   * @param json - A JSON object mapping actions to lists of keys.
+   * @returns The bindings of the actions it sets.
+   * @throws KeyBindingError if the JSON is malformed or names an unknown action.
+   */
+  static parse(json: string): Partial<IKeyBindings>
+  {
+    let data: unknown
+
+    try
+    {
+      data = JSON.parse(json)
+    }
+
+    catch (error)
+    {
+      throw new KeyBindingError(`Invalid key bindings JSON: ${(error as Error).message}`)
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data))
+    {
+      throw new KeyBindingError('Key bindings must be a JSON object mapping actions to lists of keys')
+    }
+
+    const actions = this.getActions()
+    const bindings: Partial<IKeyBindings> = {}
+
+    Object.entries(data).forEach(([name, keys]) =>
+    {
+      const action = actions.find((a) => a === name)
+
+      if (!action)
+      {
+        throw new KeyBindingError(`Unknown action "${name}", expected one of ${actions.join(', ')}`)
+      }
+
+      if (!Array.isArray(keys))
+      {
+        throw new KeyBindingError(`The keys of "${name}" must be a list`)
+      }
+
+      bindings[action] = this.normalize(keys)
+    })
+
+    return bindings
+  }
+
+  /**
+   * Reads key bindings from a JSON file.
+   *
+   * @param path - The path of the file.
+   * @returns The bindings of the actions it sets.
+   * @throws KeyBindingError if the file is malformed or names an unknown action.
+   */
+  static load(path: string): Partial<IKeyBindings>
+  {
+    return this.parse(readFileSync(path, 'utf-8'))
+  }
+}
@@ -0,0 +1,401 @@
+import { Movement, type IGameConfig, type Position, type PowerUpType } from '@type/global'
+import { LAYOUT_WALL_CHAR } from '@utils/BoardUtils'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { DEFAULT_CONFIG } from '@config/defaults'
+import { readFileSync } from 'fs'
+
+/**
+ * Error raised for a malformed level file.
+ * The message is prefixed with the 1-based line and column of the problem.
+ */
+export class LevelParseError extends Error
+{
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, line: number, column: number)
+  {
+    super(`${line}:${column}: ${message}`)
+
+    this.name = 'LevelParseError'
+    this.line = line
+    this.column = column
+  }
+}
+
+/**
+ * Character that marks the snake's start position in the grid.
+ */
+const START_CHAR = 'S'
+
+/**
+ * Characters that mark an empty cell in the grid.
+ */
+const EMPTY_CHARS = ['.', ' ']
+
+/**
+ * Line separating the header from the grid.
+ */
+const SEPARATOR = '---'
+
+const HEADER_KEYS = ['name', 'size', 'start', 'direction', 'powerups', 'target', 'length'] as const
+
+type HeaderKey = typeof HEADER_KEYS[number]
+
+interface HeaderEntry
+{
+  value: string
+  line: number
+  column: number
+}
+
+/**
+ * LevelLoader parses plain-text level files into game configurations.
+ *
+ * A level file has a header of `key: value` lines, a `---` separator and an ASCII grid:
+ *
+ * ```
+ * name: Warm Up
+ * size: 10x5
+ * direction: right
+ * powerups: magnet, freeze
+ * target: 50
+ * ---
+ * ##########
+ * #........#
+ * #..S.....#
+ * #........#
+ * ##########
+ * ```
+ *
+ * Header keys are `name`, `size` (WIDTHxHEIGHT), `start` (X,Y), `direction`
+ * (up, down, left, right), `powerups` (comma separated list or `none`),
+ * `target` (score, at least 1) and `length` (snake length). Every key is optional and
+ * lines starting with `//` are comments. In the grid `#` is a wall, `S` the
+ * snake's start position and `.` or a space an empty cell.
+ */
+export class LevelLoader
+{
+  /**
+   * Parses the source of a level file into a game configuration.
+   *
+   * @param source - The content of the level file.
+   * @param baseConfig - Settings the level does not define, e.g. difficulty or icons.
+   * @returns The game configuration described by the level.
+   * @throws LevelParseError if the level is malformed.
+   */
+  static parse(source: string, baseConfig: Partial<IGameConfig> = {}): IGameConfig
+  {
+    const lines = source.replace(/\r/g, '').split('\n')
+    const separatorIndex = lines.findIndex((line) => line.trim() === SEPARATOR)
+
+    if (separatorIndex === -1)
+    {
+      throw new LevelParseError(`missing '${SEPARATOR}' line between header and grid`, lines.length, 1)
+    }
+
+    const header = this.parseHeader(lines.slice(0, separatorIndex))
+    const builder = GameConfigBuilder.fromPartialConfig(baseConfig)
+
+    this.applyHeader(header, builder)
+    this.applyGrid(lines.slice(separatorIndex + 1), separatorIndex + 2, header, builder)
+
+    return builder.build()
+  }
+
+  /**
+   * Reads and parses a level file from disk.
+   *
+   * @param path - The path of the level file.
+   * @param baseConfig - Settings the level does not define, e.g. difficulty or icons.
+   * @returns The game configuration described by the level.
+   * @throws LevelParseError if the level is malformed, prefixed with the file path.
+   */
+  static loadFile(path: string, baseConfig: Partial<IGameConfig> = {}): IGameConfig
+  {
+    const source = readFileSync(path, 'utf8')
+
+    try
+    {
+      return this.parse(source, baseConfig)
+    }
+
+    catch (error)
+    {
+      if (error instanceof LevelParseError)
+      {
+        error.message = `${path}:${error.message}`
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Splits the header lines into key/value entries, remembering where each value starts.
+   *
+   * @param lines - The lines before the separator.
+   * @returns The header entries by key.
+   */
+  private static parseHeader(lines: string[]): Map<HeaderKey, HeaderEntry>
+  {
+    const header = new Map<HeaderKey, HeaderEntry>()
+
+    lines.forEach((line, index) =>
+    {
+      const lineNumber = index + 1
+      const trimmed = line.trim()
+
+      if (trimmed === '' || trimmed.startsWith('//'))
+      {
+        return
+      }
+
+      const colonIndex = line.indexOf(':')
+
+      if (colonIndex === -1)
+      {
+        throw new LevelParseError(`expected 'key: value', got '${trimmed}'`, lineNumber, line.indexOf(trimmed) + 1)
+      }
+
+      const key = line.slice(0, colonIndex).trim().toLowerCase()
+      const keyColumn = line.search(/\S/) + 1
+
+      if (!(HEADER_KEYS as readonly string[]).includes(key))
+      {
+        throw new LevelParseError(`unknown header key '${key}'`, lineNumber, keyColumn)
+      }
+
+      if (header.has(key as HeaderKey))
+      {
+        throw new LevelParseError(`duplicate header key '${key}'`, lineNumber, keyColumn)
+      }
+
+      const rawValue = line.slice(colonIndex + 1)
+      const value = rawValue.trim()
+      const valueColumn = colonIndex + 2 + (rawValue.length - rawValue.trimStart().length)
+
+      if (value === '')
+      {
+        throw new LevelParseError(`missing value for '${key}'`, lineNumber, colonIndex + 2)
+      }
+
+      header.set(key as HeaderKey, { value, line: lineNumber, column: valueColumn })
+    })
+
+    return header
+  }
+
+  /**
+   * Applies every header entry except the ones that depend on the grid.
+   *
+   * @param header - The header entries.
+   * @param builder - The builder to apply the entries to.
+   */
+  private static applyHeader(header: Map<HeaderKey, HeaderEntry>, builder: GameConfigBuilder): void
+  {
+    const name = header.get('name')
+
+    if (name)
+    {
+      builder.setLevelName(name.value)
+    }
+
+    const direction = header.get('direction')
+
+    if (direction)
+    {
+      const movement = Object.values(Movement).find((m) => m === direction.value.toLowerCase())
+
+      if (!movement)
+      {
+        throw new LevelParseError(`invalid direction '${direction.value}', expected up, down, left or right`, direction.line, direction.column)
+      }
+
+      builder.setStartDirection(movement)
+    }
+
+    const powerUps = header.get('powerups')
+
+    if (powerUps)
+    {
+      const types = Object.keys(DEFAULT_CONFIG.powerUps) as PowerUpType[]
+      const names = powerUps.value.toLowerCase() === 'none'
+        ? []
+        : powerUps.value.split(',').map((entry) => entry.trim())
+
+      const enabled = names.map((entry) =>
+      {
+        const type = types.find((t) => t.toLowerCase() === entry.toLowerCase())
+
+        if (!type)
+        {
+          const column = powerUps.column + powerUps.value.indexOf(entry)
+
+          throw new LevelParseError(`unknown power-up '${entry}'`, powerUps.line, column)
+        }
+
+        return type
+      })
+
+      types.forEach((type) => builder.enablePowerUp(type, enabled.includes(type)))
+    }
+
+    const target = header.get('target')
+
+    if (target)
+    {
+      builder.setTargetScore(this.parseInteger(target, 1))
+    }
+
+    const length = header.get('length')
+
+    if (length)
+    {
+      builder.setTargetLength(this.parseInteger(length, 1))
+    }
+  }
+
+  /**
+   * Parses the grid into walls and the start position and checks it against the header.
+   *
+   * @param lines - The lines after the separator.
+   * @param firstLineNumber - The line number of the first grid line in the file.
+   * @param header - The header entries.
+   * @param builder - The builder to apply the grid to.
+   */
+  private static applyGrid(lines: string[], firstLineNumber: number, header: Map<HeaderKey, HeaderEntry>, builder: GameConfigBuilder): void
+  {
+    while (lines.length > 0 && lines[lines.length - 1]!.trim() === '')
+    {
+      lines.pop()
+    }
+
+    if (lines.length === 0)
+    {
+      throw new LevelParseError('the level has no grid', firstLineNumber, 1)
+    }
+
+    const obstacles: Position[] = []
+    let gridStart: Position | null = null
+
+    lines.forEach((line, y) =>
+    {
+      Array.from(line).forEach((char, x) =>
+      {
+        if (char === LAYOUT_WALL_CHAR)
+        {
+          obstacles.push([x, y])
+        }
+
+        else if (char === START_CHAR)
+        {
+          if (gridStart)
+          {
+            throw new LevelParseError(`more than one '${START_CHAR}' in the grid`, firstLineNumber + y, x + 1)
+          }
+
+          gridStart = [x, y]
+        }
+
+        else if (!EMPTY_CHARS.includes(char))
+        {
+          throw new LevelParseError(`unexpected character '${char}' in the grid`, firstLineNumber + y, x + 1)
+        }
+      })
+    })
+
+    const width = Math.max(...lines.map((line) => Array.from(line).length))
+    const height = lines.length
+    const size = header.get('size')
+
+    if (size)
+    {
+      const match = size.value.match(/^(\d+)\s*x\s*(\d+)$/i)
+
+      if (!match)
+      {
+        throw new LevelParseError(`invalid size '${size.value}', expected WIDTHxHEIGHT`, size.line, size.column)
+      }
+
+      const [declaredWidth, declaredHeight] = [Number(match[1]), Number(match[2])]
+
+      if (declaredWidth !== width || declaredHeight !== height)
+      {
+        throw new LevelParseError(`size ${declaredWidth}x${declaredHeight} does not match the ${width}x${height} grid`, size.line, size.column)
+      }
+    }
+
+    const start = this.resolveStart(header.get('start'), gridStart, firstLineNumber)
+
+    if (start)
+    {
+      const [x, y] = start.position
+
+      if (x >= width || y >= height)
+      {
+        throw new LevelParseError(`start position ${x},${y} is outside the ${width}x${height} grid`, start.line, start.column)
+      }
+
+      if (obstacles.some(([wx, wy]) => wx === x && wy === y))
+      {
+        throw new LevelParseError(`start position ${x},${y} is a wall`, start.line, start.column)
+      }
+
+      builder.setStartPosition(x, y)
+    }
+
+    builder.setBoardSize(width, height).setObstacles(obstacles)
+  }
+
+  /**
+   * Combines the start position of the header and of the grid.
+   *
+   * @param entry - The `start` header entry, if any.
+   * @param gridStart - The position of the start marker in the grid, if any.
+   * @param firstLineNumber - The line number of the first grid line in the file.
+   * @returns The start position with the location to report errors at, or null if none is defined.
+   */
+  private static resolveStart(entry: HeaderEntry | undefined, gridStart: Position | null, firstLineNumber: number): { position: Position, line: number, column: number } | null
+  {
+    if (!entry)
+    {
+      return gridStart
+        ? { position: gridStart, line: firstLineNumber + gridStart[1], column: gridStart[0] + 1 }
+        : null
+    }
+
+    const match = entry.value.match(/^(\d+)\s*,\s*(\d+)$/)
+
+    if (!match)
+    {
+      throw new LevelParseError(`invalid start '${entry.value}', expected X,Y`, entry.line, entry.column)
+    }
+
+    const position: Position = [Number(match[1]), Number(match[2])]
+
+    if (gridStart && (gridStart[0] !== position[0] || gridStart[1] !== position[1]))
+    {
+      throw new LevelParseError(`start ${position[0]},${position[1]} does not match '${START_CHAR}' at ${gridStart[0]},${gridStart[1]}`, entry.line, entry.column)
+    }
+
+    return { position, line: entry.line, column: entry.column }
+  }
+
+  /**
+   * Parses a non-negative integer header value.
+   *
+   * @param entry - The header entry.
+   * @param min - The smallest accepted value.
+   * @returns The parsed integer.
+   */
+  private static parseInteger(entry: HeaderEntry, min: number): number
+  {
+    if (!/^\d+$/.test(entry.value) || Number(entry.value) < min)
+    {
+      throw new LevelParseError(`expected an integer of at least ${min}, got '${entry.value}'`, entry.line, entry.column)
+    }
+
+    return Number(entry.value)
+  }
+}
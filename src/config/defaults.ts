@@ -1,4 +1,4 @@
-import type { IGameConfig, ISpeedConfig } from '@type/global'
+import { Movement, type Direction, type IGameConfig, type ISpeedConfig, type KeyAction } from '@type/global'
 
 /**
  * Default configuration for the game.
@@ -10,6 +10,41 @@ export const DEFAULT_SPEEDS: ISpeedConfig =
   high: 70,
 }
 
+/**
+ * Direction vectors for each movement.
+ */
+export const MOVEMENT_DIRECTIONS: Record<Movement, Direction> =
+{
+  [Movement.Up]: [0, -1],
+  [Movement.Down]: [0, 1],
+  [Movement.Left]: [-1, 0],
+  [Movement.Right]: [1, 0],
+}
+
+/**
+ * Actions that steer each player's snake, by movement.
+ */
+export const PLAYER_MOVEMENT_ACTIONS: Record<Movement, KeyAction>[] =
+[
+  {
+    [Movement.Up]: Movement.Up,
+    [Movement.Down]: Movement.Down,
+    [Movement.Left]: Movement.Left,
+    [Movement.Right]: Movement.Right,
+  },
+  {
+    [Movement.Up]: 'playerTwoUp',
+    [Movement.Down]: 'playerTwoDown',
+    [Movement.Left]: 'playerTwoLeft',
+    [Movement.Right]: 'playerTwoRight',
+  },
+]
+
+/**
+ * Icons given in turn to rival snakes that do not set their own.
+ */
+export const RIVAL_ICONS: string[] = ['🦎', '🐛', '🐊', '🐢']
+
 /**
  * Default game configuration.
  */
@@ -19,6 +54,7 @@ export const DEFAULT_CONFIG: IGameConfig =
   {
     width: 20,
     height: 20,
+    edges: 'wrap',
   },
   game:
   {
@@ -75,7 +111,10 @@ export const DEFAULT_CONFIG: IGameConfig =
   icons:
   {
     background: '⬜️',
+    border: '🟫',
+    wall: '🧱',
     snake: '🐍',
+    snakeTwo: '🐲',
     apple: '🍎',
     magnet: '🧲',
     slowMotion: '🧊',
@@ -85,4 +124,20 @@ export const DEFAULT_CONFIG: IGameConfig =
     boost: '⚡',
     freeze: '❄️',
   },
+  keyBindings:
+  {
+    [Movement.Up]: ['up'],
+    [Movement.Down]: ['down'],
+    [Movement.Left]: ['left'],
+    [Movement.Right]: ['right'],
+    playerTwoUp: ['w'],
+    playerTwoDown: ['s'],
+    playerTwoLeft: ['a'],
+    playerTwoRight: ['d'],
+    pause: ['space'],
+    restart: ['backspace'],
+    quit: ['escape'],
+    save: ['q'],
+    autopilot: ['tab'],
+  },
 }
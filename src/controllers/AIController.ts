@@ -0,0 +1,38 @@
+import type { Direction, Position } from '@type/global'
+import type { ISnakeController, ISnakeView } from '@controllers/SnakeController'
+import type { IRivalStrategy } from '@ai/BaseRivalStrategy'
+
+/**
+ * Steers a snake with a computer strategy, e.g. a rival behavior or the autopilot.
+ */
+export class AIController implements ISnakeController
+{
+  private strategy: IRivalStrategy
+
+  constructor(strategy: IRivalStrategy)
+  {
+    this.strategy = strategy
+  }
+
+  /**
+   * Lets the strategy choose the direction from what the snake sees.
+   *
+   * @param view - The game as seen from the snake.
+   * @returns The direction chosen by the strategy.
+   */
+  nextDirection(view: ISnakeView): Direction
+  {
+    const copy = (position: Readonly<Position>): Position => [position[0], position[1]]
+    const snake = view.snake.map(copy)
+
+    return this.strategy.chooseDirection(
+    {
+      snake,
+      direction: copy(view.direction),
+      apple: copy(view.apple),
+      powerUps: view.powerUps.map((powerUp) => copy(powerUp.position)),
+      occupied: [...snake, ...view.others.flatMap((other) => other.map(copy))],
+      heads: view.others.filter((other) => other.length > 0).map((other) => copy(other[0]!))
+    })
+  }
+}
@@ -0,0 +1,44 @@
+import type { Direction, Movement } from '@type/global'
+import type { ISnakeController, ISnakeView } from '@controllers/SnakeController'
+import type { InputService } from '@services/InputService'
+import { DEFAULT_CONFIG } from '@config/defaults'
+import { DirectionQueue } from '@utils/DirectionQueue'
+
+/**
+ * Steers a snake with movement keys.
+ * Keys pressed between two ticks are queued and applied one per tick, so quick
+ * successive turns are neither lost nor checked against a stale direction.
+ */
+export class KeyboardController implements ISnakeController
+{
+  private queue: DirectionQueue = new DirectionQueue()
+  private direction: Direction | null = null
+  private canReverse: boolean = false
+
+  constructor(inputService: InputService, keys: Record<Movement, string[]> = DEFAULT_CONFIG.keyBindings)
+  {
+    inputService.onMovement((direction: Direction) =>
+    {
+      this.queue.push(direction, this.direction, this.canReverse)
+    }, keys)
+  }
+
+  /**
+   * Returns the oldest queued turn that is still valid from the snake's direction.
+   *
+   * @param view - The game as seen from the steered snake.
+   * @returns The requested direction, or null if no key was pressed.
+   */
+  nextDirection(view: ISnakeView): Direction | null
+  {
+    const current = [...view.direction] as Direction
+
+    this.canReverse = view.snake.length === 1
+
+    const direction = this.queue.next(current, this.canReverse)
+
+    this.direction = direction ?? current
+
+    return direction
+  }
+}
@@ -0,0 +1,89 @@
+import { Movement, type Direction } from '@type/global'
+import type { ISnakeController } from '@controllers/SnakeController'
+import { MOVEMENT_DIRECTIONS } from '@config/defaults'
+import type { Readable } from 'stream'
+
+/**
+ * Steers a snake from outside the process, e.g. a bot connected through a socket.
+ *
+ * Directions are sent with send() or read from a stream of lines, each line
+ * being a movement name: `up`, `down`, `left` or `right`. Unknown lines are ignored.
+ * The last direction received since the previous tick is applied on the next tick.
+ */
+export class RemoteController implements ISnakeController
+{
+  private pendingDirection: Direction | null = null
+  private input: Readable | null = null
+  private buffer: string = ''
+  private dataListener: ((chunk: Buffer | string) => void) | null = null
+
+  constructor(input?: Readable)
+  {
+    if (input)
+    {
+      this.input = input
+      this.dataListener = (chunk) => this.receive(chunk.toString())
+      input.on('data', this.dataListener)
+    }
+  }
+
+  /**
+   * Requests a direction for the next tick.
+   *
+   * @param movement - The movement to make.
+   */
+  send(movement: Movement): void
+  {
+    this.pendingDirection = MOVEMENT_DIRECTIONS[movement]
+  }
+
+  /**
+   * Returns the last direction received since the previous tick.
+   *
+   * @returns The requested direction, or null if none was received.
+   */
+  nextDirection(): Direction | null
+  {
+    const direction = this.pendingDirection
+
+    this.pendingDirection = null
+
+    return direction
+  }
+
+  /**
+   * Stops reading from the input stream.
+   */
+  dispose(): void
+  {
+    if (this.input && this.dataListener)
+    {
+      this.input.off('data', this.dataListener)
+    }
+
+    this.input = null
+    this.dataListener = null
+  }
+
+  /**
+   * Reads the complete lines of a chunk of input, keeping the last partial line for later.
+   *
+   * @param chunk - The data received from the stream.
+   */
+  private receive(chunk: string): void
+  {
+    const lines = (this.buffer + chunk).split('\n')
+
+    this.buffer = lines.pop() ?? ''
+
+    lines.forEach((line) =>
+    {
+      const movement = Object.values(Movement).find((m) => m === line.trim().toLowerCase())
+
+      if (movement)
+      {
+        this.send(movement)
+      }
+    })
+  }
+}
@@ -0,0 +1,57 @@
+import type { Direction } from '@type/global'
+import type { ISnakeController, ISnakeView } from '@controllers/SnakeController'
+
+/**
+ * A turn of a scripted snake.
+ */
+export interface IScriptedMove
+{
+  tick: number
+  direction: Direction
+}
+
+/**
+ * Steers a snake through a fixed list of turns, e.g. for demos or reproducible tests.
+ * Each turn is applied before the tick following the given number of played ticks.
+ */
+export class ScriptedController implements ISnakeController
+{
+  private moves: IScriptedMove[]
+  private cursor: number = 0
+
+  constructor(moves: IScriptedMove[])
+  {
+    this.moves = [...moves].sort((a, b) => a.tick - b.tick)
+  }
+
+  /**
+   * Returns the last scripted turn due by the tick of the view.
+   *
+   * @param view - The game as seen from the snake.
+   * @returns The scripted direction, or null if no turn is due.
+   */
+  nextDirection(view: ISnakeView): Direction | null
+  {
+    let direction: Direction | null = null
+    let move = this.moves[this.cursor]
+
+    while (move && move.tick <= view.tick)
+    {
+      direction = move.direction
+      this.cursor++
+      move = this.moves[this.cursor]
+    }
+
+    return direction
+  }
+
+  /**
+   * Checks if some scripted turns have not been applied yet.
+   *
+   * @returns True if turns are pending, false otherwise.
+   */
+  hasPendingMoves(): boolean
+  {
+    return this.cursor < this.moves.length
+  }
+}
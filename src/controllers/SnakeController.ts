@@ -0,0 +1,41 @@
+import type { Direction, IBoardConfig, IPowerUp, Position } from '@type/global'
+
+/**
+ * A read-only view of the game from one snake, handed to its controller each tick.
+ */
+export interface ISnakeView
+{
+  readonly tick: number
+  readonly player: number
+  readonly board: Readonly<IBoardConfig>
+  readonly snake: readonly Readonly<Position>[]
+  readonly direction: Readonly<Direction>
+  readonly apple: Readonly<Position>
+  readonly powerUps: readonly Readonly<IPowerUp>[]
+  readonly others: readonly (readonly Readonly<Position>[])[]
+  readonly score: number
+}
+
+/**
+ * Steers a snake.
+ *
+ * Before every tick the engine hands each controller a view of the game and
+ * turns its snake in the returned direction. Keyboard, scripted, AI and remote
+ * controllers are interchangeable.
+ */
+export interface ISnakeController
+{
+  /**
+   * Chooses the direction of the snake for the coming tick.
+   *
+   * @param view - The game as seen from the snake.
+   * @returns The direction to turn to, or null to keep going.
+   */
+  nextDirection(view: ISnakeView): Direction | null
+
+  /**
+   * Releases what the controller holds, e.g. key handlers or streams.
+   * Called when the engine stops.
+   */
+  dispose?(): void
+}
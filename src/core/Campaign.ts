@@ -0,0 +1,327 @@
+import type { Direction, ICampaignEvents, ICampaignOptions, ICampaignResult, IGameConfig, IGameState, ILevelResult } from '@type/global'
+import { EventEmitter, type EventListener } from '@utils/EventEmitter'
+import { ManualClock, SystemClock, type IClock } from '@utils/Clock'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { GameEngine } from '@core/GameEngine'
+
+/**
+ * Default time the intermission screen is shown between levels, in milliseconds.
+ */
+const DEFAULT_INTERMISSION_TIME = 2500
+
+/**
+ * Campaign chains a list of levels into a single run.
+ *
+ * Each level is played by its own GameEngine. When the goal of a level is reached
+ * an intermission screen is shown and the next level starts, optionally carrying
+ * the score over. The campaign ends when the last level is completed or the snake dies.
+ */
+export class Campaign
+{
+  private levels: IGameConfig[]
+  private carryOverScore: boolean
+  private intermissionTime: number
+  private clock: IClock
+  private events: EventEmitter<ICampaignEvents> = new EventEmitter()
+
+  private engine: GameEngine
+  private engineListeners: (() => void)[] = []
+  private levelIndex: number = 0
+  private results: ILevelResult[] = []
+  private finished: boolean = false
+  private intermission: boolean = false
+
+  constructor(levels: IGameConfig[], options: ICampaignOptions = {})
+  {
+    this.levels = levels
+    this.carryOverScore = options.carryOverScore ?? true
+    this.intermissionTime = options.intermissionTime ?? DEFAULT_INTERMISSION_TIME
+
+    const firstLevel = levels[0]
+
+    if (!firstLevel)
+    {
+      throw new Error('A campaign needs at least one level')
+    }
+
+    // Like a headless GameEngine, a headless campaign runs in game time so that it is deterministic
+    this.clock = firstLevel.clock ?? (firstLevel.game.headless ? new ManualClock() : new SystemClock())
+    this.engine = this.createEngine(0, 0)
+  }
+
+  /**
+   * Starts the first level.
+   * Headless campaigns are then advanced through step().
+   */
+  start(): void
+  {
+    this.startLevel()
+  }
+
+  /**
+   * Advances the current level by exactly one tick, for headless campaigns.
+   * If the tick completes a level, the next level is loaded right away.
+   *
+   * @param direction - An optional direction to apply before the tick.
+   * @returns A snapshot of the game state after the tick.
+   */
+  step(direction?: Direction): IGameState
+  {
+    if (this.finished)
+    {
+      return this.engine.getState()
+    }
+
+    this.engine.step(direction)
+
+    return this.engine.getState()
+  }
+
+  /**
+   * Stops the current level and ends the campaign without reporting results.
+   */
+  stop(): void
+  {
+    this.finished = true
+    this.releaseEngine()
+  }
+
+  /**
+   * Registers a listener for a campaign event.
+   *
+   * @param event - The name of the event to listen for.
+   * @param listener - The function to call with the event payload.
+   * @returns A function that removes the listener when called.
+   */
+  on<K extends keyof ICampaignEvents>(event: K, listener: EventListener<ICampaignEvents[K]>): () => void
+  {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Returns the engine of the level being played.
+   *
+   * @returns The current game engine.
+   */
+  getEngine(): GameEngine
+  {
+    return this.engine
+  }
+
+  /**
+   * Returns the index of the level being played.
+   *
+   * @returns The zero-based level index.
+   */
+  getLevelIndex(): number
+  {
+    return this.levelIndex
+  }
+
+  /**
+   * Checks if the campaign has ended.
+   *
+   * @returns True if the campaign is over, false otherwise.
+   */
+  isFinished(): boolean
+  {
+    return this.finished
+  }
+
+  /**
+   * Returns the results of the levels played so far.
+   *
+   * @returns The campaign results.
+   */
+  getResult(): ICampaignResult
+  {
+    const completed = this.results.length === this.levels.length && this.results.every((r) => r.completed)
+    const totalScore = this.carryOverScore
+      ? this.results.at(-1)?.score ?? 0
+      : this.results.reduce((sum, r) => sum + r.score, 0)
+
+    return {
+      completed,
+      levels: this.results.map((r) => ({ ...r })),
+      totalScore
+    }
+  }
+
+  /**
+   * Creates the engine of a level and subscribes to its outcome.
+   *
+   * @param index - The index of the level.
+   * @param initialScore - The score the level starts with.
+   * @returns The engine of the level.
+   */
+  private createEngine(index: number, initialScore: number): GameEngine
+  {
+    const config = GameConfigBuilder.fromPartialConfig(this.levels[index]!)
+      .setInitialScore(initialScore)
+      .setClock(this.clock)
+      .build()
+
+    const engine = new GameEngine(config)
+
+    this.engineListeners =
+    [
+      engine.on('levelCompleted', () => this.onLevelCompleted(engine)),
+      engine.on('gameOver', () => this.onLevelFailed(engine))
+    ]
+
+    this.levelIndex = index
+
+    return engine
+  }
+
+  /**
+   * Records a completed level and moves on to the next one, or finishes the campaign.
+   *
+   * @param engine - The engine of the completed level.
+   */
+  private onLevelCompleted(engine: GameEngine): void
+  {
+    const result = this.recordResult(engine, true)
+    const nextIndex = this.levelIndex + 1
+
+    if (nextIndex >= this.levels.length)
+    {
+      this.finish()
+
+      return
+    }
+
+    const nextScore = this.carryOverScore ? result.score : 0
+
+    if (engine.isHeadless())
+    {
+      this.releaseEngine()
+      this.engine = this.createEngine(nextIndex, nextScore)
+      this.startLevel()
+
+      return
+    }
+
+    this.intermission = true
+    this.releaseEngine()
+    engine.renderScreen(
+    [
+      `LEVEL ${this.levelIndex + 1} COMPLETE`,
+      '',
+      `🏆 ${result.score} - 📏 ${result.length}`,
+      '',
+      `Next: ${this.getLevelName(nextIndex)}`
+    ])
+
+    this.clock.setTimeout(() =>
+    {
+      if (!this.intermission || this.finished)
+      {
+        return
+      }
+
+      this.intermission = false
+
+      this.engine = this.createEngine(nextIndex, nextScore)
+      this.startLevel()
+    }, this.intermissionTime)
+  }
+
+  /**
+   * Starts the engine of the current level and notifies listeners.
+   */
+  private startLevel(): void
+  {
+    this.events.emit('levelStarted', { index: this.levelIndex, name: this.getLevelName(this.levelIndex) })
+    this.engine.start()
+  }
+
+  /**
+   * Records a failed level and finishes the campaign.
+   *
+   * @param engine - The engine of the failed level.
+   */
+  private onLevelFailed(engine: GameEngine): void
+  {
+    this.recordResult(engine, false)
+    this.finish()
+  }
+
+  /**
+   * Stores the result of the level being played.
+   *
+   * @param engine - The engine of the level.
+   * @param completed - Whether the goal of the level was reached.
+   * @returns The result of the level.
+   */
+  private recordResult(engine: GameEngine, completed: boolean): ILevelResult
+  {
+    const state = engine.getState()
+    const initialScore = engine.getConfig().game.initialScore ?? 0
+
+    const result: ILevelResult =
+    {
+      name: this.getLevelName(this.levelIndex),
+      score: this.carryOverScore ? state.score : state.score - initialScore,
+      length: state.snake.length,
+      ticks: engine.getTick(),
+      completed
+    }
+
+    this.results.push(result)
+    this.events.emit('levelFinished', { ...result, index: this.levelIndex })
+
+    return result
+  }
+
+  /**
+   * Stops the engine of the current level and stops listening to it.
+   */
+  private releaseEngine(): void
+  {
+    this.engineListeners.forEach((unsubscribe) => unsubscribe())
+    this.engineListeners = []
+    this.engine.stop()
+  }
+
+  /**
+   * Ends the campaign, shows the final results, stops the last level and notifies listeners.
+   */
+  private finish(): void
+  {
+    this.finished = true
+
+    const result = this.getResult()
+
+    this.engine.renderScreen(
+    [
+      result.completed ? 'CAMPAIGN COMPLETE' : 'CAMPAIGN OVER',
+      '',
+      ...result.levels.map((level, index) =>
+      {
+        const status = level.completed ? '✔' : '✘'
+
+        return `${status} ${index + 1}. ${level.name} - ${level.score}`
+      }),
+      '',
+      `Total: ${result.totalScore}`,
+      '',
+      'Press Ctrl+C to quit'
+    ])
+
+    this.releaseEngine()
+
+    this.events.emit('finished', result)
+  }
+
+  /**
+   * Returns the display name of a level.
+   *
+   * @param index - The index of the level.
+   * @returns The configured name, or a numbered fallback.
+   */
+  private getLevelName(index: number): string
+  {
+    return this.levels[index]?.level?.name ?? `Level ${index + 1}`
+  }
+}
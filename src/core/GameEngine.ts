@@ -1,16 +1,60 @@
-import type { Direction, IBoardConfig, IGameConfig, IGameState, Position, Range } from '@type/global'
+import { Movement, type CheatResult, type Direction, type IBoardConfig, type IGameConfig, type IGameEvents, type IGameState, type IPlayerState, type IReplay, type Position, type PowerUpType, type Range } from '@type/global'
 import type { IPowerUpContext, PowerUp } from '@powerups/PowerUp'
 import { GameStateService } from '@services/GameStateService'
-import { PowerUpManager } from '@powerups/PowerUpManager'
+import { PowerUpFactory, PowerUpManager } from '@powerups/PowerUpManager'
 import { GameConfigBuilder } from '@config/ConfigBuilder'
-import { RenderService } from '@services/RenderService'
+import type { IRenderer } from '@renderers/Renderer'
+import { RendererFactory } from '@renderers/RendererFactory'
 import { InputService } from '@services/InputService'
 import { CheatService } from '@services/CheatService'
-import { DEFAULT_SPEEDS } from '@config/defaults'
+import { CommandInputService } from '@services/CommandInputService'
+import { DEFAULT_SPEEDS, MOVEMENT_DIRECTIONS, PLAYER_MOVEMENT_ACTIONS, RIVAL_ICONS } from '@config/defaults'
 import { MathUtils } from '@utils/MathUtils'
 import { Apple } from '@entities/Apple'
 import { Snake } from '@entities/Snake'
 import { BoardUtils } from '@utils/BoardUtils'
+import { PositionValidator } from '@utils/PositionValidator'
+import { ManualClock, SystemClock, type IClock, type TimerHandle } from '@utils/Clock'
+import { SeededRandom } from '@utils/Random'
+import { EventEmitter, type EventListener } from '@utils/EventEmitter'
+import { DirectionQueue } from '@utils/DirectionQueue'
+import { ReplayRecorder } from '@core/ReplayRecorder'
+import { SAVE_VERSION, SaveGame, type ISaveGame } from '@core/SaveGame'
+import { RivalFactory } from '@ai/RivalStrategies'
+import { AutopilotStrategy } from '@ai/Autopilot'
+import { AIController } from '@controllers/AIController'
+import { KeyboardController } from '@controllers/KeyboardController'
+import type { ISnakeController, ISnakeView } from '@controllers/SnakeController'
+import { readFileSync } from 'fs'
+
+/**
+ * A snake on the board, the score of the player and the controller steering it.
+ * Turns requested for a human snake wait in its input queue until the next tick.
+ * Rival snakes drop out of the game when they die, the others end it.
+ */
+interface IPlayer
+{
+  name: string
+  icon: string
+  snake: Snake
+  score: number
+  alive: boolean
+  rival: boolean
+  controller: ISnakeController | null
+  inputQueue: DirectionQueue
+  range: Range
+  invincible: boolean
+}
+
+/**
+ * A power-up whose effect is running, with the player who collected it and the timer ending it.
+ */
+interface IActiveEffect
+{
+  powerUp: PowerUp
+  player: IPlayer
+  expiry: TimerHandle
+}
 
 /**
  * GameEngine is the core class that manages the game logic, including
@@ -22,27 +66,40 @@ import { BoardUtils } from '@utils/BoardUtils'
 export class GameEngine implements IPowerUpContext
 {
   private config: IGameConfig
+  private players: IPlayer[]
   private snake: Snake
   private apple: Apple
   private powerUpManager: PowerUpManager
-  private inputService: InputService
-  private renderService: RenderService
+  private inputService: InputService | null = null
+  private commandInput: CommandInputService | null = null
+  private renderer: IRenderer | null = null
   private gameStateService: GameStateService
   private cheatService: CheatService
   private cheatBuffer: string = ''
-
-  private gameInterval: Timer | null = null
-
-  private blinkInterval: Timer | null = null
+  private headless: boolean
+  private clock: IClock
+  private random: SeededRandom
+  private positionValidator: PositionValidator
+  private events: EventEmitter<IGameEvents> = new EventEmitter()
+  private tick: number = 0
+  private recorder: ReplayRecorder = new ReplayRecorder()
+  private activeEffects: Map<PowerUpType, IActiveEffect> = new Map()
+  private autopilot: AIController
+  private autopilotEnabled: boolean
+
+  private gameInterval: TimerHandle | null = null
+
+  private blinkInterval: TimerHandle | null = null
   private previousBlinkState: boolean = false
 
-  private range: Range = 'regular'
   private currentBackgroundIcon: string
   private currentScorePerApple: number
   private currentUpdateTime: number
 
-  private invincibilityActive: boolean = false
   private gameFrozen: boolean = false
+  private levelComplete: boolean = false
+  private pausedForResize: boolean = false
+  private pausedAt: number = 0
 
   constructor(config?: Partial<IGameConfig>)
   {
@@ -50,54 +107,324 @@ export class GameEngine implements IPowerUpContext
       ? GameConfigBuilder.fromPartialConfig(config).build()
       : new GameConfigBuilder().build()
 
+    this.headless = this.config.game.headless ?? false
+    this.clock = this.config.clock ?? (this.headless ? new ManualClock() : new SystemClock())
+
+    if (this.config.renderer)
+    {
+      this.renderer = this.config.renderer
+      this.renderer.updateBoard(this.config.board)
+      this.renderer.updateIcons(this.config.icons)
+    }
+
+    else if (!this.headless)
+    {
+      this.renderer = RendererFactory.createRenderer(this.config.game.renderer ?? 'auto', this.config, this.clock)
+    }
+
+    if (this.config.board.size === 'auto')
+    {
+      this.config.board = this.renderer?.fitBoard?.(this.config.board) ?? { ...this.config.board, size: undefined }
+      this.renderer?.updateBoard(this.config.board)
+    }
+
+    this.random = new SeededRandom(this.config.game.seed ?? SeededRandom.generateSeed())
+    this.positionValidator = new PositionValidator(this.config.board, this.random)
+    this.autopilot = new AIController(new AutopilotStrategy(this.config.board, this.random))
+    this.autopilotEnabled = this.config.game.autopilot ?? false
+
     this.currentBackgroundIcon = this.config.icons.background
     this.currentScorePerApple = this.config.game.scorePerApple
     this.currentUpdateTime = this.calculateUpdateTime()
 
-    const centerPosition = BoardUtils.getCenter(this.config.board)
+    const startDirection = MOVEMENT_DIRECTIONS[this.config.game.startDirection ?? Movement.Up]
+
+    const icons = [this.config.icons.snake, this.config.icons.snakeTwo]
+    const humanCount = this.getHumanCount()
+    const rivals = this.config.game.rivals ?? []
 
-    this.snake = new Snake(centerPosition, this.config.board)
+    this.players = this.getStartPositions().map((position, index) =>
+    {
+      const rival = rivals[index - humanCount]
+      const rivalIndex = index - humanCount
+
+      return {
+        name: rival ? `Rival ${rivalIndex + 1}` : `Player ${index + 1}`,
+        icon: rival ? rival.icon ?? RIVAL_ICONS[rivalIndex % RIVAL_ICONS.length]! : icons[index]!,
+        snake: new Snake(position, this.config.board, startDirection),
+        score: index === 0 ? this.getInitialScore() : 0,
+        alive: true,
+        rival: rival !== undefined,
+        controller: rival ? new AIController(RivalFactory.createStrategy(rival.behavior, this.config.board, this.random)) : null,
+        inputQueue: new DirectionQueue(),
+        range: 'regular',
+        invincible: false
+      }
+    })
+
+    this.snake = this.players[0]!.snake
 
-    this.apple = new Apple(this.config.board)
+    this.apple = new Apple(this.config.board, this.random, this.getOccupiedPositions())
 
     this.powerUpManager = new PowerUpManager(
       this.config.powerUps,
-      this.config.board
+      this.config.board,
+      this.clock,
+      this.random
     )
 
-    this.inputService = new InputService()
-    this.renderService = new RenderService(this.config.board, this.config.icons)
+    if (!this.headless && this.config.game.keyboard !== false)
+    {
+      this.inputService = new InputService()
+    }
+
     this.cheatService = new CheatService()
 
     const initialState: IGameState =
     {
       snake: this.snake.getSegments(),
       apple: this.apple.getPosition(),
-      score: 0,
+      score: this.getInitialScore(),
       powerUps: [],
       isGameOver: false,
       isPaused: false,
-      activePowerUps: []
+      activePowerUps: [],
+      players: this.getPlayerStates(),
+      autopilot: this.autopilotEnabled
     }
 
-    this.gameStateService = new GameStateService(initialState)
+    this.gameStateService = new GameStateService(initialState, this.clock)
 
     this.setupInput()
+    this.renderer?.onFitChange?.((fits) => this.onRendererFit(fits))
+
+    if (this.config.game.inputScript)
+    {
+      this.commandInput = new CommandInputService(this, this.config.game.allowCheats)
+      this.commandInput.feed(`${readFileSync(this.config.game.inputScript, 'utf-8')}\n`)
+    }
   }
 
   /**
    * Starts the game engine.
    * Initializes the input service, renders the initial game state, and starts the game loop.
+   * When the standard input is not a terminal, the game is driven by the commands read from it, unless the keyboard is off.
+   * In headless mode there is nothing to start, the game only advances through step().
    */
   start(): void
   {
-    console.clear()
+    if (this.headless)
+    {
+      return
+    }
+
+    this.inputService?.initialize()
+
+    if (!process.stdin.isTTY && !this.commandInput && this.config.game.keyboard !== false)
+    {
+      this.commandInput = new CommandInputService(this, this.config.game.allowCheats)
+      this.commandInput.listen(process.stdin)
+    }
 
-    this.inputService.initialize()
     this.render()
     this.startGameLoop()
   }
 
+  /**
+   * Advances the game by exactly one tick.
+   * Intended for headless mode: a ManualClock is advanced by the current update time
+   * so timed power-ups expire in game time, then the game state is updated.
+   *
+   * @param direction - An optional direction to apply before the tick.
+   * @returns A snapshot of the game state after the tick.
+   * @throws Error if the game loop is running, since its ticks would be played as well.
+   */
+  step(direction?: Direction): IGameState
+  {
+    if (this.gameInterval)
+    {
+      throw new Error('Cannot step a game whose loop is running, create it headless or stop it first')
+    }
+
+    if (direction)
+    {
+      this.setDirection(direction)
+    }
+
+    if (this.clock instanceof ManualClock)
+    {
+      this.clock.advance(this.currentUpdateTime)
+    }
+
+    this.update()
+
+    return this.gameStateService.clone()
+  }
+
+  /**
+   * Requests a new direction for a snake, ignored while the game is paused or over.
+   * The turn is queued and applied on the next tick, after the turns already queued;
+   * turns that would not change the direction or reverse the snake are dropped.
+   * Rival snakes cannot be steered.
+   *
+   * @param direction - The requested direction.
+   * @param player - The index of the player steering, player one by default.
+   */
+  setDirection(direction: Direction, player: number = 0): void
+  {
+    const target = this.players[player]
+
+    if (!this.gameStateService.isPaused() && !this.gameStateService.isGameOver() && target?.alive && !target.rival)
+    {
+      target.inputQueue.push(direction, target.snake.getDirection(), target.snake.getLength() === 1)
+    }
+  }
+
+  /**
+   * Executes a cheat code and notifies listeners.
+   *
+   * @param code - The cheat code.
+   * @returns The outcome of the cheat.
+   */
+  executeCheat(code: string): CheatResult
+  {
+    this.recorder.record({ tick: this.tick, type: 'cheat', code })
+
+    const result = this.cheatService.execute(code, this)
+    this.events.emit('cheatActivated', { tick: this.tick, code, result })
+
+    return result
+  }
+
+  /**
+   * Returns the replay of the game since it was started or last restarted.
+   *
+   * @returns The replay with the configuration, seed and recorded inputs.
+   */
+  getReplay(): IReplay
+  {
+    return this.recorder.toReplay(this.config, this.getSeed(), this.tick)
+  }
+
+  /**
+   * Returns a snapshot of the current game state.
+   *
+   * @returns A deep copy of the current game state.
+   */
+  getState(): IGameState
+  {
+    return this.gameStateService.clone()
+  }
+
+  /**
+   * Returns the number of ticks played since the game started or restarted.
+   *
+   * @returns The current tick number.
+   */
+  getTick(): number
+  {
+    return this.tick
+  }
+
+  /**
+   * Registers a listener for a game lifecycle event.
+   *
+   * @param event - The name of the event to listen for.
+   * @param listener - The function to call with the event payload.
+   * @returns A function that removes the listener when called.
+   */
+  on<K extends keyof IGameEvents>(event: K, listener: EventListener<IGameEvents[K]>): () => void
+  {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Removes a listener registered with on().
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof IGameEvents>(event: K, listener: EventListener<IGameEvents[K]>): void
+  {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Checks if the engine runs without game loop and input service, nor a renderer unless one is set.
+   *
+   * @returns True if the engine is headless, false otherwise.
+   */
+  isHeadless(): boolean
+  {
+    return this.headless
+  }
+
+  /**
+   * Hands a snake over to a controller, e.g. a bot, from the next tick on.
+   * The controller of player one is overridden while the autopilot is engaged.
+   *
+   * @param player - The index of the player.
+   * @param controller - The controller to steer the snake, or null to only steer it through setDirection().
+   */
+  setController(player: number, controller: ISnakeController | null): void
+  {
+    const target = this.players[player]
+
+    if (target)
+    {
+      target.controller = controller
+    }
+  }
+
+  /**
+   * Returns the controller steering a snake.
+   *
+   * @param player - The index of the player.
+   * @returns The controller of the snake, or null if it has none.
+   */
+  getController(player: number): ISnakeController | null
+  {
+    return this.players[player]?.controller ?? null
+  }
+
+  /**
+   * Engages or disengages the autopilot steering player one's snake.
+   *
+   * @param enabled - If true, the autopilot steers the snake from the next tick on.
+   */
+  setAutopilot(enabled: boolean): void
+  {
+    if (this.autopilotEnabled === enabled)
+    {
+      return
+    }
+
+    this.recorder.record({ tick: this.tick, type: 'autopilot', enabled })
+    this.autopilotEnabled = enabled
+    this.gameStateService.setAutopilot(enabled)
+    this.events.emit('autopilotToggled', { tick: this.tick, enabled })
+
+    this.forceRender()
+  }
+
+  /**
+   * Toggles the autopilot steering player one's snake.
+   */
+  toggleAutopilot(): void
+  {
+    this.setAutopilot(!this.autopilotEnabled)
+  }
+
+  /**
+   * Checks if the autopilot is steering player one's snake.
+   *
+   * @returns True if the autopilot is engaged, false otherwise.
+   */
+  isAutopilotEnabled(): boolean
+  {
+    return this.autopilotEnabled
+  }
+
   /**
    * Toggles the pause state of the game.
    */
@@ -105,21 +432,35 @@ export class GameEngine implements IPowerUpContext
   {
     const currentState = this.gameStateService.getState()
 
-    if (currentState.isGameOver)
+    if (currentState.isGameOver || this.levelComplete)
     {
       return
     }
 
+    if (currentState.isPaused)
+    {
+      // Timed power-ups keep running while paused, so the replay has to wait as long
+      this.recorder.record({ tick: this.tick, type: 'pause', duration: this.clock.now() - this.pausedAt })
+    }
+
+    else
+    {
+      this.pausedAt = this.clock.now()
+      this.recorder.record({ tick: this.tick, type: 'pause' })
+    }
+
     this.gameStateService.setPaused(!currentState.isPaused)
 
     if (currentState.isPaused)
     {
       this.startGameLoop()
+      this.events.emit('resumed', { tick: this.tick })
     }
 
     else
     {
       this.stopGameLoop()
+      this.events.emit('paused', { tick: this.tick })
     }
 
     this.forceRender()
@@ -127,55 +468,122 @@ export class GameEngine implements IPowerUpContext
 
   /**
    * Restarts the game.
+   * The new game is seeded from the random sequence of the previous one, so its apples and power-ups
+   * differ while a session started from a given seed stays reproducible. The replay starts over
+   * with the new seed.
    */
   restart(): void
   {
     this.stopGameLoop()
 
-    const centerPosition = BoardUtils.getCenter(this.config.board)
+    this.random.reset(Math.floor(this.random.next() * 4294967296))
+
+    const startPositions = this.getStartPositions()
+
+    this.players.forEach((player, index) =>
+    {
+      player.snake.reset(startPositions[index]!)
+      player.score = index === 0 ? this.getInitialScore() : 0
+      player.alive = true
+      player.inputQueue.clear()
+      player.range = 'regular'
+      player.invincible = false
+    })
 
-    this.snake.reset(centerPosition)
-    this.apple.respawn(this.snake.getSegments())
+    this.apple.respawn(this.getOccupiedPositions())
     this.powerUpManager.clearAllPowerUps()
+    this.activeEffects.clear()
 
     this.gameStateService.reset(
     {
       snake: this.snake.getSegments(),
-      apple: this.apple.getPosition()
+      apple: this.apple.getPosition(),
+      score: this.getInitialScore(),
+      players: this.getPlayerStates(),
+      autopilot: this.autopilotEnabled
     })
 
-    this.range = 'regular'
+    this.levelComplete = false
     this.currentBackgroundIcon = this.config.icons.background
     this.currentScorePerApple = this.config.game.scorePerApple
 
+    this.events.emit('restarted', { tick: this.tick })
+    this.tick = 0
+    this.recorder.reset()
+
     this.start()
   }
 
   /**
    * Stops the game engine.
-   * Clears the game loop and destroys the input service.
+   * Clears the game loop and the timers of running effects, and destroys the input service.
    */
   stop(): void
   {
     this.stopGameLoop()
     this.stopBlinkInterval()
-    this.inputService.destroy()
+    this.inputService?.destroy()
+    this.commandInput?.destroy()
+    this.renderer?.dispose?.()
+
+    this.players.forEach((player) => player.controller?.dispose?.())
+
+    this.activeEffects.forEach(({ powerUp, expiry }) =>
+    {
+      powerUp.cancel()
+      this.clock.clearTimeout(expiry)
+    })
+
+    this.activeEffects.clear()
   }
 
   /**
-   * Sets up the input handling for the game.
+   * Pauses the game while the board does not fit on the display, e.g. in a shrunk terminal,
+   * and resumes it once it fits again, unless the player paused it in the meantime.
+   *
+   * @param fits - Whether the board fits on the display.
    */
-  private setupInput(): void
+  private onRendererFit(fits: boolean): void
   {
-    this.inputService.onMovement((direction: Direction) =>
+    const { isPaused } = this.gameStateService.getState()
+
+    if (!fits && !isPaused)
+    {
+      this.togglePause()
+      this.pausedForResize = this.gameStateService.getState().isPaused
+    }
+
+    else if (fits && this.pausedForResize)
     {
-      if (!this.gameStateService.isPaused() && !this.gameStateService.isGameOver())
+      this.pausedForResize = false
+
+      if (isPaused)
       {
-        this.snake.setDirection(direction)
+        this.togglePause()
       }
-    })
+    }
+  }
+
+  /**
+   * Sets up the input handling for the game.
+   */
+  private setupInput(): void
+  {
+    if (!this.inputService)
+    {
+      return
+    }
+
+    const bindings = this.config.keyBindings
+
+    for (const [index, actions] of PLAYER_MOVEMENT_ACTIONS.slice(0, this.getHumanCount()).entries())
+    {
+      const keys = Object.fromEntries(Object.values(Movement).map((movement) => [movement, bindings[actions[movement]]])) as Record<Movement, string[]>
+
+      this.players[index]!.controller = new KeyboardController(this.inputService, keys)
+    }
 
-    this.inputService.onKeyPress('space', () =>
+    this.inputService.onKeysPress(bindings.pause, () =>
     {
       if (!this.gameStateService.isGameOver())
       {
@@ -183,11 +591,31 @@ export class GameEngine implements IPowerUpContext
       }
     })
 
-    this.inputService.onKeyPress('backspace', () =>
+    this.inputService.onKeysPress(bindings.restart, () =>
     {
       this.restart()
     })
 
+    this.inputService.onKeysPress(bindings.autopilot, () =>
+    {
+      this.toggleAutopilot()
+    })
+
+    this.inputService.onKeysPress(bindings.quit, () =>
+    {
+      this.quit()
+    })
+
+    const saveFile = this.config.game.saveFile
+
+    if (saveFile)
+    {
+      this.inputService.onKeysPress(bindings.save, () =>
+      {
+        this.saveAndQuit(saveFile)
+      })
+    }
+
     if (this.config.game.allowCheats)
     {
       const codes = this.cheatService.getCodes()
@@ -214,7 +642,8 @@ export class GameEngine implements IPowerUpContext
               break
             }
 
-            const result = this.cheatService.execute(code, this)
+            const result = this.executeCheat(code)
+
             let msg: string
             switch (result)
             {
@@ -231,13 +660,13 @@ export class GameEngine implements IPowerUpContext
                 msg = `Unknown cheat: ${code}`
             }
 
-            this.renderService.setOverlayMessage(msg)
+            this.renderer?.setOverlayMessage(msg)
             this.forceRender()
             this.cheatBuffer = ''
 
-            setTimeout(() =>
+            this.clock.setTimeout(() =>
             {
-              this.renderService.setOverlayMessage('')
+              this.renderer?.setOverlayMessage('')
               this.forceRender()
             }, 1200)
 
@@ -253,9 +682,9 @@ export class GameEngine implements IPowerUpContext
    */
   private startGameLoop(): void
   {
-    if (this.gameInterval) return
+    if (this.gameInterval || this.headless) return
 
-    this.gameInterval = setInterval(() =>
+    this.gameInterval = this.clock.setInterval(() =>
     {
       this.update()
     }, this.currentUpdateTime)
@@ -270,7 +699,7 @@ export class GameEngine implements IPowerUpContext
   {
     if (this.gameInterval)
     {
-      clearInterval(this.gameInterval)
+      this.clock.clearInterval(this.gameInterval)
 
       this.gameInterval = null
     }
@@ -288,10 +717,10 @@ export class GameEngine implements IPowerUpContext
       return
     }
 
-    this.blinkInterval = setInterval(() =>
+    this.blinkInterval = this.clock.setInterval(() =>
     {
       const currentState = this.gameStateService.getState()
-      const currentTime = Date.now()
+      const currentTime = this.clock.now()
 
       const hasBlinkingPowerUps = currentState.activePowerUps.some((powerUp) =>
       {
@@ -304,15 +733,7 @@ export class GameEngine implements IPowerUpContext
 
       if (hasBlinkingPowerUps || this.previousBlinkState !== hasBlinkingPowerUps)
       {
-        if (hasBlinkingPowerUps)
-        {
-          this.forceRender()
-        }
-
-        else
-        {
-          this.render()
-        }
+        this.render()
 
         this.previousBlinkState = hasBlinkingPowerUps
       }
@@ -326,7 +747,7 @@ export class GameEngine implements IPowerUpContext
   {
     if (this.blinkInterval)
     {
-      clearInterval(this.blinkInterval)
+      this.clock.clearInterval(this.blinkInterval)
       this.blinkInterval = null
       this.previousBlinkState = false
     }
@@ -337,11 +758,21 @@ export class GameEngine implements IPowerUpContext
    */
   private update(): void
   {
-    if (this.gameStateService.isPaused() || this.gameStateService.isGameOver())
+    this.events.emit('tickStarted', { tick: this.tick })
+
+    if (this.gameStateService.isPaused() || this.gameStateService.isGameOver() || this.levelComplete)
     {
       return
     }
 
+    if (!this.gameFrozen)
+    {
+      // Steered before the tick advances, so the recorded directions replay at the right tick
+      this.steerSnakes()
+    }
+
+    this.tick++
+
     if (this.gameFrozen)
     {
       this.render()
@@ -349,94 +780,550 @@ export class GameEngine implements IPowerUpContext
       return
     }
 
-    const tailPosition = this.snake.move()
+    const alivePlayers = this.players.filter((player) => player.alive)
+    const tailPositions = alivePlayers.map((player) => player.snake.move())
 
-    if (!this.invincibilityActive)
+    // Every snake moves before any collision is checked, so two heads meeting both die
+    const casualties = alivePlayers.filter((player) => this.checkCollisions(player, alivePlayers))
+
+    casualties.forEach((player) =>
     {
-      if (this.snake.checkSelfCollision())
-      {
-        this.gameOver()
+      player.alive = false
+    })
+
+    // Rivals drop out of the game, losing a player ends it
+    if (casualties.some((player) => !player.rival))
+    {
+      this.gameOver()
+
+      return
+    }
 
+    alivePlayers.forEach((player, index) =>
+    {
+      if (!player.alive)
+      {
         return
       }
-    }
 
-    const head = this.snake.getHead()
-    let hasEaten = false
+      const head = player.snake.getHead()
+      const tailPosition = tailPositions[index]!
 
-    if (this.isInRange(head, this.apple.getPosition()))
-    {
-      this.eatApple(tailPosition)
-      hasEaten = true
-    }
+      if (this.isInRange(player, head, this.apple.getPosition()))
+      {
+        this.eatApple(player, tailPosition)
+      }
 
-    const powerUpAtPosition = this.powerUpManager.findPowerUpAtPosition(head)
+      const powerUpAtPosition = this.powerUpManager.findPowerUpAtPosition(head)
 
-    if (powerUpAtPosition && this.isInRange(head, powerUpAtPosition.position))
-    {
-      this.eatPowerUp(powerUpAtPosition, tailPosition)
-      hasEaten = true
-    }
+      if (powerUpAtPosition && this.isInRange(player, head, powerUpAtPosition.position))
+      {
+        this.eatPowerUp(player, powerUpAtPosition, tailPosition)
+      }
+    })
+
+    this.updateGameState()
 
-    if (!hasEaten)
+    if (this.isLevelGoalReached())
     {
-      // Nothing
+      this.completeLevel()
+
+      return
     }
 
-    this.updateGameState()
     this.render()
   }
 
   /**
-   * Eats the apple and updates the game state.
-   *
-   * @param tailPosition - The position of the snake's tail.
+   * Asks the controller of every snake still in the game for its direction.
+   * Turns of human snakes go through their input queue, one per tick at most.
+   * Player one's snake is steered by the autopilot while it is engaged.
+   * Turns of rivals are not recorded, they replay from the seed.
    */
-  private eatApple(tailPosition: Position): void
+  private steerSnakes(): void
   {
-    this.snake.grow(tailPosition)
-    this.gameStateService.incrementScore(this.currentScorePerApple)
+    this.players.forEach((player, index) =>
+    {
+      if (!player.alive)
+      {
+        return
+      }
 
-    const occupiedPositions =
-    [
-      ...this.snake.getSegments(),
-      ...this.powerUpManager.getActivePowerUps().map((p) => p.position)
-    ]
-    this.apple.respawn(occupiedPositions)
+      const view = this.getView(player)
+      const requested = player.controller?.nextDirection(view) ?? null
 
-    const newPowerUps = this.powerUpManager.generateRandomPowerUps(occupiedPositions)
+      if (player.rival)
+      {
+        if (requested)
+        {
+          player.snake.setDirection(requested)
+        }
+
+        return
+      }
+
+      if (index === 0 && this.autopilotEnabled)
+      {
+        const direction = this.autopilot.nextDirection(view)
+
+        player.inputQueue.clear()
+
+        if (direction && !MathUtils.positionsEqual(direction, player.snake.getDirection()))
+        {
+          this.changeDirection(direction, index)
+        }
+
+        return
+      }
+
+      const current = player.snake.getDirection()
+      const canReverse = player.snake.getLength() === 1
+
+      if (requested)
+      {
+        player.inputQueue.push(requested, current, canReverse)
+      }
+
+      const direction = player.inputQueue.next(current, canReverse)
+
+      if (direction)
+      {
+        this.changeDirection(direction, index)
+      }
+    })
+  }
+
+  /**
+   * Returns the read-only view of the game handed to the controller of a snake.
+   *
+   * @param player - The player whose snake is steered.
+   * @returns The game as seen from that snake.
+   */
+  private getView(player: IPlayer): ISnakeView
+  {
+    const others = this.players.filter((other) => other.alive && other !== player)
+
+    return {
+      tick: this.tick,
+      player: this.players.indexOf(player),
+      board: this.config.board,
+      snake: player.snake.getSegments().map((segment) => [...segment] as Position),
+      direction: player.snake.getDirection(),
+      apple: [...this.apple.getPosition()] as Position,
+      powerUps: this.powerUpManager.getActivePowerUps().map(({ position, type, createdAt }) => ({ position: [...position] as Position, type, createdAt })),
+      others: others.map((other) => other.snake.getSegments().map((segment) => [...segment] as Position)),
+      score: player.score
+    }
+  }
+
+  /**
+   * Checks if a snake that just moved hits a wall, itself or another snake.
+   * While invincible, a snake crossing the edge of the board is wrapped back onto it instead.
+   *
+   * @param player - The player whose snake moved.
+   * @param contenders - The players whose snakes were on the board at the start of the tick.
+   * @returns True if the snake dies, false otherwise.
+   */
+  private checkCollisions(player: IPlayer, contenders: IPlayer[]): boolean
+  {
+    const snake = player.snake
+    const index = this.players.indexOf(player)
+
+    if (snake.isOutOfBounds() || this.positionValidator.isObstacle(snake.getHead()))
+    {
+      if (!player.invincible)
+      {
+        this.events.emit('wallCollision', { tick: this.tick, player: index, head: snake.getHead() })
+
+        return true
+      }
+
+      snake.wrapHead()
+    }
+
+    if (player.invincible)
+    {
+      return false
+    }
+
+    const head = snake.getHead()
+
+    if (snake.checkSelfCollision())
+    {
+      this.events.emit('selfCollision', { tick: this.tick, player: index, head })
+
+      return true
+    }
+
+    const other = contenders.find((contender) => contender !== player && contender.snake.occupiesPosition(head))
+
+    if (other)
+    {
+      this.events.emit('snakeCollision', { tick: this.tick, player: index, other: this.players.indexOf(other), head })
+
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Checks if the score or length goal of the level has been reached.
+   * The score goal only counts the points earned in this level.
+   *
+   * @returns True if a goal is configured and reached, false otherwise.
+   */
+  private isLevelGoalReached(): boolean
+  {
+    const level = this.config.level
+
+    if (!level || (level.targetScore === undefined && level.targetLength === undefined))
+    {
+      return false
+    }
+
+    const levelScore = this.gameStateService.getState().score - this.getInitialScore()
+
+    if (level.targetScore !== undefined && levelScore >= level.targetScore)
+    {
+      return true
+    }
+
+    return level.targetLength !== undefined && this.snake.getLength() >= level.targetLength
+  }
+
+  /**
+   * Marks the level as completed.
+   * Stops the game loop and renders the final state of the level.
+   */
+  private completeLevel(): void
+  {
+    this.levelComplete = true
+    this.stopGameLoop()
+    this.render()
+
+    this.events.emit('levelCompleted',
+    {
+      tick: this.tick,
+      name: this.config.level?.name,
+      score: this.gameStateService.getState().score,
+      length: this.snake.getLength()
+    })
+  }
+
+  /**
+   * Checks if the goal of the level has been reached.
+   *
+   * @returns True if the level is complete, false otherwise.
+   */
+  isLevelComplete(): boolean
+  {
+    return this.levelComplete
+  }
+
+  /**
+   * Returns the configuration the engine was built with.
+   *
+   * @returns The game configuration.
+   */
+  getConfig(): IGameConfig
+  {
+    return this.config
+  }
+
+  /**
+   * Shows a full-screen message, e.g. between levels, instead of the board.
+   * Does nothing in headless mode.
+   *
+   * @param lines - The lines of the message.
+   */
+  renderScreen(lines: string[]): void
+  {
+    this.renderer?.renderScreen(lines)
+  }
+
+  /**
+   * Eats the apple and updates the game state.
+   *
+   * @param player - The player whose snake eats the apple.
+   * @param tailPosition - The position of the snake's tail.
+   */
+  private eatApple(player: IPlayer, tailPosition: Position): void
+  {
+    const applePosition = this.apple.getPosition()
+
+    player.snake.grow(tailPosition)
+    player.score += this.currentScorePerApple
+
+    this.events.emit('appleEaten',
+    {
+      tick: this.tick,
+      player: this.players.indexOf(player),
+      position: applePosition,
+      score: player.score,
+      length: player.snake.getLength()
+    })
+
+    const occupiedPositions =
+    [
+      ...this.getOccupiedPositions(),
+      ...this.powerUpManager.getActivePowerUps().map((p) => p.position)
+    ]
+    this.apple.respawn(occupiedPositions)
+
+    const newPowerUps = this.powerUpManager.generateRandomPowerUps(occupiedPositions)
 
     newPowerUps.forEach((powerUp) =>
     {
-      this.powerUpManager.addPowerUp(powerUp)
+      if (this.powerUpManager.addPowerUp(powerUp))
+      {
+        this.events.emit('powerUpSpawned', { tick: this.tick, type: powerUp.type, position: powerUp.position })
+      }
     })
   }
 
   /**
    * Eats a power-up and applies its effects and adds/removes active power-up status.
    *
+   * @param player - The player whose snake consumes the power-up.
    * @param powerUp - The power-up to be consumed.
    * @param tailPosition - The position of the snake's tail.
    */
-  private eatPowerUp(powerUp: PowerUp, tailPosition: Position): void
+  private eatPowerUp(player: IPlayer, powerUp: PowerUp, tailPosition: Position): void
   {
-    this.snake.grow(tailPosition)
+    player.snake.grow(tailPosition)
 
     const duration = powerUp.getDuration()
 
+    this.events.emit('powerUpCollected', { tick: this.tick, player: this.players.indexOf(player), type: powerUp.type, position: powerUp.position, duration })
+
     if (duration > 0)
     {
       this.gameStateService.addActivePowerUp(powerUp.type, duration)
+      this.activeEffects.set(powerUp.type, { powerUp, player, expiry: this.scheduleExpiry(powerUp, duration) })
+    }
+
+    powerUp.apply(this.getPowerUpContext(player))
+
+    this.powerUpManager.removePowerUp(powerUp.type)
+  }
+
+  /**
+   * Removes a power-up from the active list once its effect is over.
+   *
+   * @param powerUp - The power-up whose effect is running.
+   * @param delay - The time left before the effect ends, in milliseconds.
+   * @returns The handle of the timer.
+   */
+  private scheduleExpiry(powerUp: PowerUp, delay: number): TimerHandle
+  {
+    return this.clock.setTimeout(() =>
+    {
+      this.gameStateService.removeActivePowerUp(powerUp.type)
+
+      if (this.activeEffects.get(powerUp.type)?.powerUp === powerUp)
+      {
+        this.activeEffects.delete(powerUp.type)
+      }
+
+      this.events.emit('powerUpExpired', { tick: this.tick, type: powerUp.type })
+    }, delay)
+  }
+
+  /**
+   * Captures the full state of the game so it can be resumed later.
+   *
+   * @returns The save of the game.
+   */
+  createSave(): ISaveGame
+  {
+    const state = this.gameStateService.getState()
+    const now = this.clock.now()
 
-      setTimeout(() =>
+    const savedState: IGameState = JSON.parse(JSON.stringify(
+    {
+      ...state,
+      powerUps: state.powerUps.map(({ position, type, createdAt }) => ({ position, type, createdAt }))
+    }))
+
+    return {
+      version: SAVE_VERSION,
+      config: JSON.parse(JSON.stringify({ ...this.config, clock: undefined, renderer: undefined })),
+      seed: this.getSeed(),
+      randomState: this.random.getState(),
+      tick: this.tick,
+      state: savedState,
+      snake:
       {
-        this.gameStateService.removeActivePowerUp(powerUp.type)
-      }, duration)
+        segments: this.snake.getSegments(),
+        direction: this.snake.getDirection()
+      },
+      players: this.players.map((player) =>
+      ({
+        segments: player.snake.getSegments(),
+        direction: player.snake.getDirection(),
+        score: player.score,
+        alive: player.alive,
+        range: player.range,
+        invincible: player.invincible
+      })),
+      effects:
+      {
+        range: this.players[0]!.range,
+        backgroundIcon: this.currentBackgroundIcon,
+        scorePerApple: this.currentScorePerApple,
+        updateTime: this.currentUpdateTime,
+        invincible: this.players[0]!.invincible,
+        frozen: this.gameFrozen
+      },
+      activePowerUps: state.activePowerUps.map((activePowerUp) =>
+      ({
+        type: activePowerUp.type,
+        duration: activePowerUp.duration,
+        remainingTime: Math.max(0, activePowerUp.duration - (now - activePowerUp.startTime)),
+        snapshot: this.activeEffects.get(activePowerUp.type)?.powerUp.getSnapshot() ?? {},
+        player: this.players.indexOf(this.activeEffects.get(activePowerUp.type)?.player ?? this.players[0]!)
+      })),
+      cheats: this.cheatService.getSnapshot()
+    }
+  }
+
+  /**
+   * Creates an engine that resumes a saved game.
+   * Running power-up effects are re-armed with their remaining durations.
+   *
+   * @param save - The save to resume.
+   * @param clock - An optional clock to drive the resumed game.
+   * @returns A new engine in the saved state, ready to start.
+   */
+  static fromSave(save: ISaveGame, clock?: IClock): GameEngine
+  {
+    const builder = GameConfigBuilder.fromPartialConfig(save.config).setSeed(save.seed)
+
+    if (clock)
+    {
+      builder.setClock(clock)
     }
 
-    powerUp.apply(this)
+    const engine = new GameEngine(builder.build())
 
-    this.powerUpManager.removePowerUp(powerUp.type)
+    engine.restore(save)
+
+    return engine
+  }
+
+  /**
+   * Restores the state captured by createSave().
+   *
+   * @param save - The save to restore.
+   */
+  private restore(save: ISaveGame): void
+  {
+    this.random.setState(save.randomState)
+    this.tick = save.tick
+
+    const savedPlayers = save.players ?? [{ ...save.snake, score: save.state.score, alive: true }]
+
+    savedPlayers.forEach((saved, index) =>
+    {
+      const player = this.players[index]
+
+      if (player)
+      {
+        player.snake.restore(saved.segments, saved.direction)
+        player.score = saved.score
+        player.alive = saved.alive
+        player.range = saved.range ?? (index === 0 ? save.effects.range : 'regular')
+        player.invincible = saved.invincible ?? (index === 0 && save.effects.invincible)
+      }
+    })
+
+    this.apple.placeAt(save.state.apple)
+
+    this.powerUpManager.clearAllPowerUps()
+
+    save.state.powerUps.forEach((powerUp) =>
+    {
+      const duration = this.config.powerUps[powerUp.type].duration
+      this.powerUpManager.addPowerUp(PowerUpFactory.createPowerUp(powerUp.position, powerUp.type, duration, this.clock, powerUp.createdAt))
+    })
+
+    this.autopilotEnabled = save.state.autopilot ?? false
+    this.currentBackgroundIcon = save.effects.backgroundIcon
+    this.currentScorePerApple = save.effects.scorePerApple
+    this.currentUpdateTime = save.effects.updateTime
+    this.gameFrozen = save.effects.frozen
+
+    this.cheatService.restoreSnapshot(save.cheats)
+
+    const now = this.clock.now()
+
+    this.pausedAt = now
+
+    this.gameStateService.reset(
+    {
+      snake: this.snake.getSegments(),
+      apple: this.apple.getPosition(),
+      score: save.state.score,
+      powerUps: this.powerUpManager.getActivePowerUps(),
+      isGameOver: save.state.isGameOver,
+      isPaused: save.state.isPaused,
+      players: this.getPlayerStates(),
+      autopilot: this.autopilotEnabled,
+      activePowerUps: save.activePowerUps.map((saved) =>
+      ({
+        type: saved.type,
+        duration: saved.duration,
+        startTime: now - (saved.duration - saved.remainingTime)
+      }))
+    })
+
+    save.activePowerUps.forEach((saved) =>
+    {
+      const powerUp = PowerUpFactory.createPowerUp(this.snake.getHead(), saved.type, saved.duration, this.clock)
+      const player = this.players[saved.player ?? 0] ?? this.players[0]!
+
+      powerUp.resume(this.getPowerUpContext(player), saved.remainingTime, saved.snapshot)
+
+      this.activeEffects.set(saved.type, { powerUp, player, expiry: this.scheduleExpiry(powerUp, saved.remainingTime) })
+    })
+  }
+
+  /**
+   * Writes the game to the save file and exits.
+   * A game that is already over is not saved.
+   *
+   * @param path - The path of the save file.
+   */
+  private saveAndQuit(path: string): void
+  {
+    const canSave = !this.gameStateService.isGameOver()
+
+    if (canSave)
+    {
+      SaveGame.save(this.createSave(), path)
+    }
+
+    this.stop()
+    console.clear()
+
+    if (canSave)
+    {
+      console.log(`Game saved to ${path}`)
+    }
+
+    process.exit(0)
+  }
+
+  /**
+   * Exits without saving the game.
+   */
+  private quit(): void
+  {
+    this.stop()
+    console.clear()
+
+    process.exit(0)
   }
 
   /**
@@ -445,21 +1332,69 @@ export class GameEngine implements IPowerUpContext
    */
   private gameOver(): void
   {
+    const humans = this.players.filter((player) => !player.rival)
+
+    if (humans.length > 1)
+    {
+      const survivors = humans.filter((player) => player.alive)
+
+      this.gameStateService.setWinner(survivors.length === 1 ? this.players.indexOf(survivors[0]!) : null)
+    }
+
+    this.updateGameState()
     this.gameStateService.setGameOver(true)
     this.stopGameLoop()
     this.render()
+
+    if (this.config.game.replayFile)
+    {
+      ReplayRecorder.save(this.getReplay(), this.config.game.replayFile)
+    }
+
+    this.events.emit('gameOver',
+    {
+      tick: this.tick,
+      score: this.gameStateService.getState().score,
+      length: this.snake.getLength(),
+      head: this.snake.getHead(),
+      winner: this.gameStateService.getState().winner
+    })
+  }
+
+  /**
+   * Changes the direction of a snake and notifies listeners if it actually changed.
+   *
+   * @param direction - The requested direction.
+   * @param player - The index of the player steering.
+   */
+  private changeDirection(direction: Direction, player: number): void
+  {
+    this.recorder.record({ tick: this.tick, type: 'direction', direction: [...direction] as Direction, player })
+
+    const snake = this.players[player]!.snake
+    const previousDirection = snake.getDirection()
+
+    snake.setDirection(direction)
+
+    const newDirection = snake.getDirection()
+
+    if (!MathUtils.positionsEqual(previousDirection, newDirection))
+    {
+      this.events.emit('directionChanged', { tick: this.tick, player, from: previousDirection, to: newDirection, head: snake.getHead() })
+    }
   }
 
   /**
-   * Checks if two positions are in range.
+   * Checks if two positions are in range of a player's snake, which a magnet widens.
    *
+   * @param player - The player whose range applies.
    * @param pos1 - The first position.
    * @param pos2 - The second position.
    * @returns True if the positions are in range, false otherwise.
    */
-  private isInRange(pos1: Position, pos2: Position): boolean
+  private isInRange(player: IPlayer, pos1: Position, pos2: Position): boolean
   {
-    if (this.range === 'regular')
+    if (player.range === 'regular')
     {
       return MathUtils.positionsEqual(pos1, pos2)
     }
@@ -476,6 +1411,8 @@ export class GameEngine implements IPowerUpContext
   private updateGameState(): void
   {
     this.gameStateService.updateSnake(this.snake.getSegments())
+    this.gameStateService.updateScore(this.players[0]!.score)
+    this.gameStateService.updatePlayers(this.getPlayerStates())
     this.gameStateService.updateApple(this.apple.getPosition())
     this.gameStateService.updatePowerUps(this.powerUpManager.getActivePowerUps())
   }
@@ -485,14 +1422,19 @@ export class GameEngine implements IPowerUpContext
    */
   private render(): void
   {
+    if (!this.renderer)
+    {
+      return
+    }
+
     const currentIcons =
     {
       ...this.config.icons,
       background: this.currentBackgroundIcon
     }
 
-    this.renderService.updateIcons(currentIcons)
-    this.renderService.render(this.gameStateService.getState())
+    this.renderer.updateIcons(currentIcons)
+    this.renderer.render(this.gameStateService.getState())
   }
 
   /**
@@ -500,14 +1442,100 @@ export class GameEngine implements IPowerUpContext
    */
   forceRender(): void
   {
+    if (!this.renderer)
+    {
+      return
+    }
+
     const currentIcons =
     {
       ...this.config.icons,
       background: this.currentBackgroundIcon
     }
 
-    this.renderService.updateIcons(currentIcons)
-    this.renderService.forceRender(this.gameStateService.getState())
+    this.renderer.updateIcons(currentIcons)
+    this.renderer.forceRender(this.gameStateService.getState())
+  }
+
+  /**
+   * Returns the positions the snakes start from.
+   * A single player starts at the center of the board unless configured,
+   * two players start side by side on the middle row. Rivals start at
+   * random free cells away from the other snakes.
+   *
+   * @returns The start position of each snake's head, players first, then rivals.
+   */
+  private getStartPositions(): Position[]
+  {
+    const startPosition = this.config.game.startPosition
+    const center = BoardUtils.getCenter(this.config.board)
+    const offset = Math.floor(this.config.board.width / 4)
+
+    const positions: Position[] = this.config.game.twoPlayer
+      ? [startPosition ? [...startPosition] as Position : [offset, center[1]], [this.config.board.width - 1 - offset, center[1]]]
+      : [startPosition ? [...startPosition] as Position : center]
+
+    const rivals = this.config.game.rivals ?? []
+
+    rivals.forEach(() =>
+    {
+      const reserved = positions.flatMap(([x, y]): Position[] => [[x, y], [x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]])
+
+      positions.push(this.positionValidator.generateValidPosition(reserved) ?? center)
+    })
+
+    return positions
+  }
+
+  /**
+   * Returns the number of players steering a snake with the keyboard.
+   *
+   * @returns 2 in two-player mode, 1 otherwise.
+   */
+  private getHumanCount(): number
+  {
+    return this.config.game.twoPlayer ? 2 : 1
+  }
+
+  /**
+   * Returns the cells covered by the snakes still in the game.
+   *
+   * @returns The positions of every living snake's segments.
+   */
+  private getOccupiedPositions(): Position[]
+  {
+    return this.players
+      .filter((player) => player.alive)
+      .flatMap((player) => player.snake.getSegments())
+  }
+
+  /**
+   * Returns the state of every player for the game state.
+   *
+   * @returns The state of each player, player one first.
+   */
+  private getPlayerStates(): IPlayerState[]
+  {
+    return this.players.map(({ name, icon, snake, score, alive, rival }) =>
+    ({
+      name,
+      icon,
+      snake: alive || !rival ? snake.getSegments() : [],
+      direction: snake.getDirection(),
+      score,
+      alive,
+      rival
+    }))
+  }
+
+  /**
+   * Returns the score the game starts with.
+   *
+   * @returns The initial score.
+   */
+  private getInitialScore(): number
+  {
+    return this.config.game.initialScore ?? 0
   }
 
   /**
@@ -526,34 +1554,44 @@ export class GameEngine implements IPowerUpContext
   }
 
   /**
-   * Sets the range for the game.
+   * Makes player one's snake invincible or not.
    *
-   * @param range - The range to set, either 'regular' or 'expanded'.
+   * @param invincible - Whether the snake survives collisions.
    */
   setInvincible(invincible: boolean): void
   {
-    this.invincibilityActive = invincible
+    this.players[0]!.invincible = invincible
   }
 
   /**
-   * Checks if the snake is currently invincible.
+   * Checks if player one's snake is currently invincible.
    *
    * @returns True if the snake is invincible, false otherwise.
    */
   isInvincible(): boolean
   {
-    return this.invincibilityActive
+    return this.players[0]!.invincible
   }
 
   /**
-   * Teleports the snake to a random position on the board.
-   * It ensures that the new position does not overlap with any occupied positions.
+   * Teleports player one's snake to a random position on the board.
    */
   teleportSnake(): void
   {
-    const segments = this.snake.getSegments()
+    this.teleportPlayer(this.players[0]!)
+  }
+
+  /**
+   * Teleports a player's snake to a random position on the board.
+   * It ensures that the new position does not overlap with any occupied positions.
+   *
+   * @param player - The player whose snake is teleported.
+   */
+  private teleportPlayer(player: IPlayer): void
+  {
+    const snake = player.snake
     const allPowerUps = this.gameStateService.getState().powerUps
-    const occupiedPositions = [...segments, this.apple.getPosition(), ...allPowerUps.map((p) => p.position)]
+    const occupiedPositions = [...this.getOccupiedPositions(), this.apple.getPosition(), ...allPowerUps.map((p) => p.position)]
 
     const maxAttempts = Math.max(100, this.config.board.width * this.config.board.height)
     let attempts = 0
@@ -561,12 +1599,10 @@ export class GameEngine implements IPowerUpContext
 
     while (attempts < maxAttempts)
     {
-      const candidate: Position = [
-        Math.floor(Math.random() * this.config.board.width),
-        Math.floor(Math.random() * this.config.board.height)
-      ]
+      const candidate = MathUtils.getRandomPosition(this.config.board.width, this.config.board.height, this.random)
 
-      const isOccupied = occupiedPositions.some((pos) => pos[0] === candidate[0] && pos[1] === candidate[1])
+      const isOccupied = this.positionValidator.isObstacle(candidate)
+        || occupiedPositions.some((pos) => pos[0] === candidate[0] && pos[1] === candidate[1])
 
       if (!isOccupied)
       {
@@ -580,10 +1616,42 @@ export class GameEngine implements IPowerUpContext
     // Fallback: if no free position found, keep current position
     if (!newPosition)
     {
-      newPosition = this.snake.getHead()
+      newPosition = snake.getHead()
     }
 
-    this.snake.teleportTo(newPosition)
+    snake.teleportTo(newPosition)
+  }
+
+  /**
+   * Creates the context a power-up collected by a player is applied through.
+   * Invincibility, range and teleports act on that player's snake, the other effects on the whole game.
+   *
+   * @param player - The player who collected the power-up.
+   * @returns The context for the power-up.
+   */
+  private getPowerUpContext(player: IPlayer): IPowerUpContext
+  {
+    return {
+      setRange: (range) => { player.range = range },
+      setUpdateTime: (time) => this.setUpdateTime(time),
+      getUpdateTime: () => this.getUpdateTime(),
+      setBackgroundIcon: (icon) => this.setBackgroundIcon(icon),
+      getBackgroundIcon: () => this.getBackgroundIcon(),
+      setScorePerApple: (score) => this.setScorePerApple(score),
+      getScorePerApple: () => this.getScorePerApple(),
+      setInvincible: (invincible) => { player.invincible = invincible },
+      isInvincible: () => player.invincible,
+      teleportSnake: () => this.teleportPlayer(player),
+      setGameFrozen: (frozen) => this.setGameFrozen(frozen),
+      isGameFrozen: () => this.isGameFrozen(),
+      getBoardDimensions: () => this.getBoardDimensions(),
+      redraw: () => this.redraw(),
+      clearInterval: () => this.clearInterval(),
+      setInterval: (callback, time) => this.setInterval(callback, time),
+      setGameOver: (isGameOver) => this.setGameOver(isGameOver),
+      isGameOver: () => this.isGameOver(),
+      resumeGame: () => this.resumeGame(),
+    }
   }
 
   /**
@@ -617,11 +1685,31 @@ export class GameEngine implements IPowerUpContext
     return this.config.board
   }
 
+  /**
+   * Returns the seed used by the random number generator of this game.
+   *
+   * @returns The seed as an unsigned 32-bit integer.
+   */
+  getSeed(): number
+  {
+    return this.random.getSeed()
+  }
+
+  /**
+   * Returns the clock that drives the game loop and timed effects.
+   *
+   * @returns The clock used by this engine.
+   */
+  getClock(): IClock
+  {
+    return this.clock
+  }
+
   // START Implementation of IPowerUpContext methods
 
   setRange(range: Range): void
   {
-    this.range = range
+    this.players[0]!.range = range
   }
 
   getUpdateTime(): number
@@ -669,7 +1757,13 @@ export class GameEngine implements IPowerUpContext
     this.stopGameLoop()
     // Keep currentUpdateTime in sync with active interval
     this.currentUpdateTime = time
-    this.gameInterval = setInterval(() =>
+
+    if (this.headless)
+    {
+      return
+    }
+
+    this.gameInterval = this.clock.setInterval(() =>
     {
       this.update()
     }, time)
@@ -677,6 +1771,16 @@ export class GameEngine implements IPowerUpContext
 
   setGameOver(isGameOver: boolean): void
   {
+    if (!isGameOver)
+    {
+      this.players.forEach((player) =>
+      {
+        player.alive = player.alive || !player.rival
+      })
+
+      this.gameStateService.setWinner(undefined)
+    }
+
     this.gameStateService.setGameOver(isGameOver)
   }
 
@@ -687,7 +1791,7 @@ export class GameEngine implements IPowerUpContext
 
   resumeGame(): void
   {
-    if (!this.gameInterval && !this.gameStateService.isPaused())
+    if (!this.gameInterval && !this.gameStateService.isPaused() && !this.levelComplete)
     {
       this.startGameLoop()
     }
@@ -0,0 +1,163 @@
+import type { IGameState, IReplay } from '@type/global'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { REPLAY_VERSION } from '@core/ReplayRecorder'
+import { GameEngine } from '@core/GameEngine'
+import { ManualClock } from '@utils/Clock'
+import { readFileSync } from 'fs'
+
+/**
+ * ReplayPlayer reproduces a recorded game by feeding its inputs back into a GameEngine.
+ *
+ * Inputs are applied at the start of the tick they were recorded at. Games recorded
+ * headless or with a ManualClock are reproduced exactly; games recorded in real time
+ * are reproduced tick by tick, with timed power-ups measured in game time.
+ * The game stays paused as long as it was recorded, since timed power-ups run meanwhile.
+ */
+export class ReplayPlayer
+{
+  private replay: IReplay
+  private engine: GameEngine
+  private cursor: number = 0
+
+  constructor(replay: IReplay, headless: boolean = true)
+  {
+    if (replay.version !== REPLAY_VERSION)
+    {
+      throw new Error(`Unsupported replay version ${replay.version}, expected ${REPLAY_VERSION}`)
+    }
+
+    this.replay = replay
+
+    const config = GameConfigBuilder.fromPartialConfig(replay.config)
+      .setSeed(replay.seed)
+      .setHeadless(headless)
+      .setKeyboard(false)
+      .build()
+
+    // The recorded inputs are the only ones played, and nothing is written back
+    config.game.replayFile = undefined
+    config.game.inputScript = undefined
+    config.game.saveFile = undefined
+
+    this.engine = new GameEngine(config)
+    this.engine.on('tickStarted', ({ tick }) => this.applyInputs(tick))
+  }
+
+  /**
+   * Creates a player from a replay file.
+   *
+   * @param path - The path of the replay file.
+   * @param headless - Whether to play the replay without renderer (default is true).
+   * @returns A new instance of ReplayPlayer.
+   */
+  static fromFile(path: string, headless: boolean = true): ReplayPlayer
+  {
+    return new ReplayPlayer(JSON.parse(readFileSync(path, 'utf8')), headless)
+  }
+
+  /**
+   * Returns the engine the replay is played on.
+   *
+   * @returns The game engine.
+   */
+  getEngine(): GameEngine
+  {
+    return this.engine
+  }
+
+  /**
+   * Plays the replay in real time on a rendered engine.
+   */
+  play(): void
+  {
+    this.engine.start()
+  }
+
+  /**
+   * Runs the whole replay on a headless engine as fast as possible.
+   * It stops once every input has been applied and the game is over or has reached the recorded final tick.
+   *
+   * @returns The game state at the end of the replay.
+   */
+  run(): IGameState
+  {
+    while (this.hasPendingInputs() || (!this.engine.isGameOver() && this.engine.getTick() < this.replay.finalTick))
+    {
+      const tickBefore = this.engine.getTick()
+      const cursorBefore = this.cursor
+
+      this.engine.step()
+
+      if (this.engine.getTick() === tickBefore && this.cursor === cursorBefore)
+      {
+        break
+      }
+    }
+
+    return this.engine.getState()
+  }
+
+  /**
+   * Checks if some recorded inputs have not been applied yet.
+   *
+   * @returns True if inputs are pending, false otherwise.
+   */
+  hasPendingInputs(): boolean
+  {
+    return this.cursor < this.replay.inputs.length
+  }
+
+  /**
+   * Applies every input recorded up to the given tick.
+   *
+   * @param tick - The tick about to be played.
+   */
+  private applyInputs(tick: number): void
+  {
+    let input = this.replay.inputs[this.cursor]
+
+    while (input && input.tick <= tick)
+    {
+      this.cursor++
+
+      switch (input.type)
+      {
+        case 'direction':
+          this.engine.setDirection(input.direction, input.player)
+          break
+        case 'cheat':
+          this.engine.executeCheat(input.code)
+          break
+        case 'autopilot':
+          this.engine.setAutopilot(input.enabled)
+          break
+        case 'pause':
+        {
+          const clock = this.engine.getClock()
+
+          if (input.duration && clock instanceof ManualClock)
+          {
+            clock.advance(input.duration)
+          }
+
+          else if (input.duration)
+          {
+            // Resumed later in real time, together with the inputs left for this tick
+            clock.setTimeout(() =>
+            {
+              this.engine.togglePause()
+              this.applyInputs(tick)
+            }, input.duration)
+
+            return
+          }
+
+          this.engine.togglePause()
+          break
+        }
+      }
+
+      input = this.replay.inputs[this.cursor]
+    }
+  }
+}
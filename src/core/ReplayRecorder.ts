@@ -0,0 +1,68 @@
+import type { IGameConfig, IReplay, ReplayInput } from '@type/global'
+import { writeFileSync } from 'fs'
+
+/**
+ * Version of the replay format written by ReplayRecorder.
+ */
+export const REPLAY_VERSION = 1
+
+/**
+ * ReplayRecorder collects the inputs of a game, keyed by the tick they were applied at,
+ * so the game can be reproduced from its configuration and seed.
+ */
+export class ReplayRecorder
+{
+  private inputs: ReplayInput[] = []
+
+  /**
+   * Records an input.
+   *
+   * @param input - The input and the tick it was applied at.
+   */
+  record(input: ReplayInput): void
+  {
+    this.inputs.push(input)
+  }
+
+  /**
+   * Discards every recorded input, e.g. when the game restarts.
+   */
+  reset(): void
+  {
+    this.inputs = []
+  }
+
+  /**
+   * Builds a replay from the recorded inputs.
+   *
+   * @param config - The configuration of the game; the clock and the renderer are not part of the replay.
+   * @param seed - The seed of the game's random number generator.
+   * @param finalTick - The tick the game had reached when the replay was taken.
+   * @returns The replay.
+   */
+  toReplay(config: IGameConfig, seed: number, finalTick: number): IReplay
+  {
+    const replayConfig: IGameConfig = JSON.parse(JSON.stringify({ ...config, clock: undefined, renderer: undefined }))
+
+    replayConfig.game.seed = seed
+
+    return {
+      version: REPLAY_VERSION,
+      seed,
+      config: replayConfig,
+      inputs: this.inputs.map((input) => JSON.parse(JSON.stringify(input))),
+      finalTick
+    }
+  }
+
+  /**
+   * Writes a replay to a JSON file.
+   *
+   * @param replay - The replay to write.
+   * @param path - The path of the file.
+   */
+  static save(replay: IReplay, path: string): void
+  {
+    writeFileSync(path, JSON.stringify(replay, null, 2) + '\n', 'utf8')
+  }
+}
@@ -0,0 +1,102 @@
+import type { Direction, IGameConfig, IGameState, Position, PowerUpType, Range } from '@type/global'
+import type { ICheatSnapshot } from '@services/CheatService'
+import type { PowerUpSnapshot } from '@powerups/PowerUp'
+import { readFileSync, writeFileSync } from 'fs'
+
+/**
+ * Version of the save format written by SaveGame.
+ */
+export const SAVE_VERSION = 1
+
+/**
+ * A power-up whose effect was running when the game was saved,
+ * with the index of the player who collected it, player one if missing.
+ */
+export interface ISavedActivePowerUp
+{
+  type: PowerUpType
+  duration: number
+  remainingTime: number
+  snapshot: PowerUpSnapshot
+  player?: number
+}
+
+/**
+ * The snake, score and personal effects of a player when the game was saved.
+ * Saves without effects fall back to the game's effects for player one.
+ */
+export interface ISavedPlayer
+{
+  segments: Position[]
+  direction: Direction
+  score: number
+  alive: boolean
+  range?: Range
+  invincible?: boolean
+}
+
+/**
+ * The full state of an in-progress game.
+ */
+export interface ISaveGame
+{
+  version: number
+  config: IGameConfig
+  seed: number
+  randomState: number
+  tick: number
+  state: IGameState
+  snake:
+  {
+    segments: Position[]
+    direction: Direction
+  }
+  players?: ISavedPlayer[]
+  effects:
+  {
+    range: Range
+    backgroundIcon: string
+    scorePerApple: number
+    updateTime: number
+    invincible: boolean
+    frozen: boolean
+  }
+  activePowerUps: ISavedActivePowerUp[]
+  cheats: ICheatSnapshot
+}
+
+/**
+ * SaveGame reads and writes save files.
+ */
+export class SaveGame
+{
+  /**
+   * Writes a save to a JSON file.
+   *
+   * @param save - The save to write.
+   * @param path - The path of the file.
+   */
+  static save(save: ISaveGame, path: string): void
+  {
+    writeFileSync(path, JSON.stringify(save, null, 2) + '\n', 'utf8')
+  }
+
+  /**
+   * Reads a save from a JSON file.
+   *
+   * @param path - The path of the file.
+   * @returns The save.
+   * @throws Error if the file was written by an unsupported version.
+   */
+  static load(path: string): ISaveGame
+  {
+    const save: ISaveGame = JSON.parse(readFileSync(path, 'utf8'))
+
+    if (save.version !== SAVE_VERSION)
+    {
+      throw new Error(`Unsupported save version ${save.version}, expected ${SAVE_VERSION}`)
+    }
+
+    return save
+  }
+}
@@ -0,0 +1,227 @@
+import type { DeathCause, GameEndCause, ISimulationOptions, ISimulationReport, ISimulationResult, IStatSummary, PowerUpType, SimulationController } from '@type/global'
+import { Worker } from 'worker_threads'
+import { availableParallelism } from 'os'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { GameEngine } from '@core/GameEngine'
+import { AIController } from '@controllers/AIController'
+import { RivalFactory } from '@ai/RivalStrategies'
+import { SeededRandom } from '@utils/Random'
+
+/**
+ * Default number of ticks after which a game is stopped.
+ */
+const DEFAULT_MAX_TICKS = 5000
+
+/**
+ * Simulation plays batches of headless games and aggregates their results.
+ *
+ * Games are played with seeds `seed`, `seed + 1`, ... so a batch is reproducible,
+ * and are spread over worker threads. Player one is steered by the chosen controller:
+ * the autopilot, one of the rival behaviors, or nothing at all, in which case the snake
+ * just goes straight.
+ */
+export class Simulation
+{
+  private options: Required<Omit<ISimulationOptions, 'config'>> & Pick<ISimulationOptions, 'config'>
+
+  constructor(options: ISimulationOptions)
+  {
+    if (!Number.isInteger(options.games) || options.games < 1)
+    {
+      throw new Error(`Invalid number of games ${options.games}, expected a positive integer`)
+    }
+
+    this.options =
+    {
+      games: options.games,
+      seed: options.seed ?? SeededRandom.generateSeed(),
+      controller: options.controller ?? 'autopilot',
+      config: options.config,
+      workers: Math.max(1, Math.min(options.workers ?? availableParallelism(), options.games)),
+      maxTicks: options.maxTicks ?? DEFAULT_MAX_TICKS
+    }
+  }
+
+  /**
+   * Plays every game of the batch in worker threads.
+   *
+   * @returns The aggregated statistics of the batch.
+   */
+  run(): Promise<ISimulationReport>
+  {
+    const startTime = performance.now()
+    const seeds = Array.from({ length: this.options.games }, (_, index) => this.options.seed + index)
+
+    const batches = Array.from({ length: this.options.workers }, (_, worker) =>
+    {
+      return seeds.filter((_, index) => index % this.options.workers === worker)
+    })
+
+    return Promise.all(batches.map((batch) => this.runWorker(batch)))
+      .then((results) => Simulation.summarize(results.flat(), this.options.controller, performance.now() - startTime))
+  }
+
+  /**
+   * Plays one headless game to its end or until the tick limit is reached.
+   *
+   * @param seed - The seed of the game.
+   * @param options - The options of the batch.
+   * @returns The result of the game.
+   */
+  static playGame(seed: number, options: ISimulationOptions): ISimulationResult
+  {
+    const controller = options.controller ?? 'autopilot'
+    const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS
+
+    const config = GameConfigBuilder.fromPartialConfig(options.config ?? {})
+      .setHeadless()
+      .setSeed(seed)
+      .setAutopilot(controller === 'autopilot')
+      .build()
+
+    const engine = new GameEngine(config)
+    const powerUps: Partial<Record<PowerUpType, number>> = {}
+    let death: DeathCause | null = null
+
+    if (controller !== 'autopilot' && controller !== 'none')
+    {
+      engine.setController(0, new AIController(RivalFactory.createStrategy(controller, config.board, new SeededRandom(seed))))
+    }
+
+    engine.on('powerUpCollected', ({ player, type }) =>
+    {
+      if (player === 0)
+      {
+        powerUps[type] = (powerUps[type] ?? 0) + 1
+      }
+    })
+
+    engine.on('wallCollision', ({ player }) => death = player === 0 ? 'wall' : death)
+    engine.on('selfCollision', ({ player }) => death = player === 0 ? 'self' : death)
+    engine.on('snakeCollision', ({ player }) => death = player === 0 ? 'snake' : death)
+
+    let state = engine.getState()
+
+    while (!state.isGameOver && !engine.isLevelComplete() && engine.getTick() < maxTicks)
+    {
+      state = engine.step()
+    }
+
+    engine.stop()
+
+    return {
+      seed,
+      score: state.score,
+      length: state.snake.length,
+      ticks: engine.getTick(),
+      powerUps,
+      cause: Simulation.getEndCause(state.isGameOver, engine.isLevelComplete(), death)
+    }
+  }
+
+  /**
+   * Aggregates the results of a batch.
+   *
+   * @param results - The results of every game.
+   * @param controller - The controller the games were played with.
+   * @param duration - How long the batch took, in milliseconds.
+   * @returns The statistics of the batch.
+   */
+  static summarize(results: ISimulationResult[], controller: SimulationController, duration: number): ISimulationReport
+  {
+    const powerUps: Partial<Record<PowerUpType, number>> = {}
+    const causes: Partial<Record<GameEndCause, number>> = {}
+
+    results.forEach((result) =>
+    {
+      Object.entries(result.powerUps).forEach(([type, count]) =>
+      {
+        powerUps[type as PowerUpType] = (powerUps[type as PowerUpType] ?? 0) + count
+      })
+
+      causes[result.cause] = (causes[result.cause] ?? 0) + 1
+    })
+
+    return {
+      games: results.length,
+      controller,
+      duration,
+      score: Simulation.summarizeValues(results.map((result) => result.score)),
+      length: Simulation.summarizeValues(results.map((result) => result.length)),
+      ticks: Simulation.summarizeValues(results.map((result) => result.ticks)),
+      powerUps,
+      causes
+    }
+  }
+
+  /**
+   * Plays a list of games in a worker thread.
+   *
+   * @param seeds - The seeds of the games to play.
+   * @returns The results of the games.
+   */
+  private runWorker(seeds: number[]): Promise<ISimulationResult[]>
+  {
+    return new Promise((resolve, reject) =>
+    {
+      const worker = new Worker(new URL('./SimulationWorker.ts', import.meta.url), { workerData: { seeds, options: this.options } })
+
+      worker.once('message', (results: ISimulationResult[]) =>
+      {
+        resolve(results)
+        worker.terminate()
+      })
+
+      worker.once('error', reject)
+
+      // Rejecting after the results arrived has no effect, so this only reports workers that quit without any
+      worker.once('exit', (code) => reject(new Error(`Simulation worker exited with code ${code} before sending its results`)))
+    })
+  }
+
+  /**
+   * Returns why a game ended.
+   *
+   * @param isGameOver - Whether the game is over.
+   * @param isLevelComplete - Whether the level goal was reached.
+   * @param death - What player one's snake ran into, if it died.
+   * @returns The cause of the end of the game.
+   */
+  private static getEndCause(isGameOver: boolean, isLevelComplete: boolean, death: DeathCause | null): GameEndCause
+  {
+    if (isLevelComplete)
+    {
+      return 'levelComplete'
+    }
+
+    if (isGameOver && death)
+    {
+      return death
+    }
+
+    return 'timeout'
+  }
+
+  /**
+   * Returns the mean, median and maximum of a list of values.
+   *
+   * @param values - The values to summarize.
+   * @returns The summary, all zeros for an empty list.
+   */
+  private static summarizeValues(values: number[]): IStatSummary
+  {
+    if (values.length === 0)
+    {
+      return { mean: 0, median: 0, max: 0 }
+    }
+
+    const sorted = [...values].sort((a, b) => a - b)
+    const middle = Math.floor(sorted.length / 2)
+
+    return {
+      mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+      median: sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!,
+      max: sorted[sorted.length - 1]!
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import type { ISimulationOptions } from '@type/global'
+import { parentPort, workerData } from 'worker_threads'
+import { Simulation } from '@core/Simulation'
+
+/**
+ * Worker thread entry point of a Simulation: plays the games it was given and posts their results back.
+ */
+const { seeds, options } = workerData as { seeds: number[], options: ISimulationOptions }
+
+parentPort?.postMessage(seeds.map((seed) => Simulation.playGame(seed, options)))
@@ -0,0 +1,524 @@
+import { Movement, type ActionSpace, type DeathCause, type Direction, type IBoardConfig, type IEnvInfo, type IGameState, type IObservation, type IRewardConfig, type ISnakeEnvOptions, type IStepResult, type ObservationEncoding, type Position } from '@type/global'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { MOVEMENT_DIRECTIONS } from '@config/defaults'
+import { GameEngine } from '@core/GameEngine'
+import { PositionValidator } from '@utils/PositionValidator'
+import { SeededRandom } from '@utils/Random'
+
+/**
+ * Default reward shaping: a point per apple, a penalty for dying and a small cost per step.
+ */
+const DEFAULT_REWARDS: IRewardConfig =
+{
+  apple: 1,
+  death: -1,
+  step: -0.01,
+  powerUp: 0.5
+}
+
+/**
+ * Default radius of the relative-to-head view, 5 gives an 11x11 window.
+ */
+const DEFAULT_VIEW_RADIUS = 5
+
+/**
+ * Absolute actions, in the order of their indices.
+ */
+const ABSOLUTE_ACTIONS: Movement[] = [Movement.Up, Movement.Right, Movement.Down, Movement.Left]
+
+/**
+ * Channels of the grid encoding: body, head, apple, power-ups, walls and other snakes.
+ */
+const GRID_CHANNELS = 6
+
+/**
+ * Channels of the relative encoding: danger, apple and power-ups.
+ */
+const RELATIVE_CHANNELS = 3
+
+/**
+ * Number of values in the feature vector encoding.
+ */
+const FEATURE_COUNT = 14
+
+/**
+ * SnakeEnv wraps a headless GameEngine into a reinforcement-learning environment.
+ *
+ * Each episode is a new game started with reset(), then advanced one tick per step().
+ * Observations are flat Float32Arrays with a shape:
+ *
+ * - `grid`: `[6, height, width]` one-hot planes for the snake's body, its head,
+ *   the apple, power-ups, walls and other snakes.
+ * - `features`: `[14]` danger straight ahead, to the left and to the right,
+ *   the current direction, where the apple is, the normalized distance to it and the length.
+ * - `relative`: `[3, 2r+1, 2r+1]` danger, apple and power-up planes in a window
+ *   centered on the head and rotated so the snake always faces up.
+ *
+ * Actions are indices: up, right, down, left for the `absolute` action space,
+ * straight, turn left, turn right for the `relative` one.
+ */
+export class SnakeEnv
+{
+  private options: ISnakeEnvOptions
+  private encoding: ObservationEncoding
+  private actionSpace: ActionSpace
+  private rewards: IRewardConfig
+  private maxSteps: number
+  private viewRadius: number
+
+  private engine: GameEngine
+  private board: IBoardConfig
+  private positionValidator: PositionValidator
+  private state: IGameState
+  private seed: number = 0
+  private steps: number = 0
+  private apples: number = 0
+  private powerUps: number = 0
+  private stepReward: number = 0
+  private cause: DeathCause | undefined
+  private direction: Direction = MOVEMENT_DIRECTIONS[Movement.Up]
+
+  constructor(options: ISnakeEnvOptions = {})
+  {
+    this.options = options
+    this.encoding = options.observation ?? 'grid'
+    this.actionSpace = options.actions ?? 'absolute'
+    this.rewards = { ...DEFAULT_REWARDS, ...options.rewards }
+    this.maxSteps = options.maxSteps ?? Infinity
+    this.viewRadius = options.viewRadius ?? DEFAULT_VIEW_RADIUS
+
+    this.engine = this.createEngine(SeededRandom.generateSeed())
+    this.board = this.engine.getConfig().board
+    this.positionValidator = new PositionValidator(this.board)
+    this.state = this.engine.getState()
+  }
+
+  /**
+   * Starts a new episode.
+   *
+   * @param seed - The seed of the game, a random one if not set.
+   * @returns The first observation of the episode.
+   */
+  reset(seed: number = SeededRandom.generateSeed()): IObservation
+  {
+    this.engine = this.createEngine(seed)
+    this.state = this.engine.getState()
+    this.steps = 0
+    this.apples = 0
+    this.powerUps = 0
+    this.cause = undefined
+    this.direction = MOVEMENT_DIRECTIONS[this.engine.getConfig().game.startDirection ?? Movement.Up]
+
+    return this.observe()
+  }
+
+  /**
+   * Applies an action and advances the game by one tick.
+   *
+   * @param action - The index of the action in the action space.
+   * @returns The observation after the tick, the reward earned, whether the episode is over and details.
+   */
+  step(action: number): IStepResult
+  {
+    if (this.isDone())
+    {
+      return { observation: this.observe(), reward: 0, done: true, info: this.getInfo() }
+    }
+
+    this.stepReward = this.rewards.step
+    this.steps++
+    this.state = this.engine.step(this.toDirection(action))
+
+    if (this.state.isGameOver)
+    {
+      this.stepReward += this.rewards.death
+    }
+
+    return {
+      observation: this.observe(),
+      reward: this.stepReward,
+      done: this.isDone(),
+      info: this.getInfo()
+    }
+  }
+
+  /**
+   * Returns the shape of the observations of the configured encoding.
+   *
+   * @returns The size of each dimension.
+   */
+  getObservationShape(): number[]
+  {
+    const size = this.viewRadius * 2 + 1
+
+    switch (this.encoding)
+    {
+      case 'grid':
+        return [GRID_CHANNELS, this.board.height, this.board.width]
+      case 'features':
+        return [FEATURE_COUNT]
+      case 'relative':
+        return [RELATIVE_CHANNELS, size, size]
+    }
+  }
+
+  /**
+   * Returns the number of actions of the configured action space.
+   *
+   * @returns 4 for absolute actions, 3 for relative ones.
+   */
+  getActionCount(): number
+  {
+    return this.actionSpace === 'absolute' ? ABSOLUTE_ACTIONS.length : 3
+  }
+
+  /**
+   * Returns the engine of the current episode.
+   *
+   * @returns The game engine.
+   */
+  getEngine(): GameEngine
+  {
+    return this.engine
+  }
+
+  /**
+   * Creates the headless engine of an episode and subscribes to the events that shape the reward.
+   *
+   * @param seed - The seed of the game.
+   * @returns The engine of the episode.
+   */
+  private createEngine(seed: number): GameEngine
+  {
+    const config = GameConfigBuilder.fromPartialConfig(this.options.config ?? {})
+      .setHeadless()
+      .setSeed(seed)
+      .build()
+
+    const engine = new GameEngine(config)
+
+    engine.on('appleEaten', ({ player }) =>
+    {
+      if (player === 0)
+      {
+        this.apples++
+        this.stepReward += this.rewards.apple
+      }
+    })
+
+    engine.on('powerUpCollected', ({ player }) =>
+    {
+      if (player === 0)
+      {
+        this.powerUps++
+        this.stepReward += this.rewards.powerUp
+      }
+    })
+
+    engine.on('directionChanged', ({ player, to }) =>
+    {
+      if (player === 0)
+      {
+        this.direction = to
+      }
+    })
+
+    engine.on('wallCollision', ({ player }) => this.recordDeath(player, 'wall'))
+    engine.on('selfCollision', ({ player }) => this.recordDeath(player, 'self'))
+    engine.on('snakeCollision', ({ player }) => this.recordDeath(player, 'snake'))
+
+    this.seed = engine.getSeed()
+
+    return engine
+  }
+
+  /**
+   * Remembers how player one's snake died.
+   *
+   * @param player - The index of the player whose snake died.
+   * @param cause - What the snake ran into.
+   */
+  private recordDeath(player: number, cause: DeathCause): void
+  {
+    if (player === 0)
+    {
+      this.cause = cause
+    }
+  }
+
+  /**
+   * Checks if the episode is over: the game ended, the level was completed or the step limit was reached.
+   *
+   * @returns True if the episode is over, false otherwise.
+   */
+  private isDone(): boolean
+  {
+    return this.state.isGameOver || this.engine.isLevelComplete() || this.steps >= this.maxSteps
+  }
+
+  /**
+   * Returns the details of the episode so far.
+   *
+   * @returns The episode information.
+   */
+  private getInfo(): IEnvInfo
+  {
+    return {
+      seed: this.seed,
+      tick: this.engine.getTick(),
+      score: this.state.score,
+      length: this.state.snake.length,
+      apples: this.apples,
+      powerUps: this.powerUps,
+      cause: this.cause,
+      truncated: !this.state.isGameOver && !this.engine.isLevelComplete() && this.steps >= this.maxSteps
+    }
+  }
+
+  /**
+   * Converts an action index into a direction.
+   *
+   * @param action - The index of the action.
+   * @returns The direction to steer to.
+   * @throws Error if the action is out of the action space.
+   */
+  private toDirection(action: number): Direction
+  {
+    if (!Number.isInteger(action) || action < 0 || action >= this.getActionCount())
+    {
+      throw new Error(`Invalid action ${action}, expected an integer between 0 and ${this.getActionCount() - 1}`)
+    }
+
+    if (this.actionSpace === 'absolute')
+    {
+      return MOVEMENT_DIRECTIONS[ABSOLUTE_ACTIONS[action]!]
+    }
+
+    const forward = this.direction
+
+    return [forward, this.turnLeft(forward), this.turnRight(forward)][action]!
+  }
+
+  /**
+   * Encodes the current state with the configured encoding.
+   *
+   * @returns The observation.
+   */
+  private observe(): IObservation
+  {
+    switch (this.encoding)
+    {
+      case 'grid':
+        return this.encodeGrid()
+      case 'features':
+        return this.encodeFeatures()
+      case 'relative':
+        return this.encodeRelative()
+    }
+  }
+
+  /**
+   * Encodes the whole board as one-hot planes.
+   *
+   * @returns The grid observation.
+   */
+  private encodeGrid(): IObservation
+  {
+    const { width, height } = this.board
+    const shape = [GRID_CHANNELS, height, width]
+    const data = new Float32Array(GRID_CHANNELS * width * height)
+
+    const set = (channel: number, [x, y]: Position): void =>
+    {
+      if (x >= 0 && x < width && y >= 0 && y < height)
+      {
+        data[(channel * height + y) * width + x] = 1
+      }
+    }
+
+    this.state.snake.slice(1).forEach((segment) => set(0, segment))
+
+    if (this.state.snake[0])
+    {
+      set(1, this.state.snake[0])
+    }
+
+    set(2, this.state.apple)
+    this.state.powerUps.forEach((powerUp) => set(3, powerUp.position))
+    this.board.obstacles?.forEach((obstacle) => set(4, obstacle))
+    this.state.players.slice(1).forEach((player) => player.snake.forEach((segment) => set(5, segment)))
+
+    return { data, shape }
+  }
+
+  /**
+   * Encodes the surroundings of the head and the position of the apple as a feature vector.
+   *
+   * @returns The feature observation.
+   */
+  private encodeFeatures(): IObservation
+  {
+    const head = this.state.snake[0] ?? [0, 0]
+    const forward = this.direction
+    const apple = this.state.apple
+    const [dx, dy] = this.getOffset(head, apple)
+
+    const data = Float32Array.from(
+    [
+      this.isDanger(head, forward) ? 1 : 0,
+      this.isDanger(head, this.turnLeft(forward)) ? 1 : 0,
+      this.isDanger(head, this.turnRight(forward)) ? 1 : 0,
+      forward[1] < 0 ? 1 : 0,
+      forward[0] > 0 ? 1 : 0,
+      forward[1] > 0 ? 1 : 0,
+      forward[0] < 0 ? 1 : 0,
+      dy < 0 ? 1 : 0,
+      dx > 0 ? 1 : 0,
+      dy > 0 ? 1 : 0,
+      dx < 0 ? 1 : 0,
+      dx / this.board.width,
+      dy / this.board.height,
+      this.state.snake.length / (this.board.width * this.board.height)
+    ])
+
+    return { data, shape: [FEATURE_COUNT] }
+  }
+
+  /**
+   * Encodes a window around the head, rotated so the snake faces up.
+   *
+   * @returns The relative observation.
+   */
+  private encodeRelative(): IObservation
+  {
+    const radius = this.viewRadius
+    const size = radius * 2 + 1
+    const data = new Float32Array(RELATIVE_CHANNELS * size * size)
+    const head = this.state.snake[0] ?? [0, 0]
+    const forward = this.direction
+    const right = this.turnRight(forward)
+
+    const { width, height } = this.board
+    const cells = new Uint8Array(width * height * RELATIVE_CHANNELS)
+    const mark = (channel: number, [x, y]: Position): void =>
+    {
+      cells[(channel * height + y) * width + x] = 1
+    }
+
+    this.getBlockedPositions().forEach((position) => mark(0, position))
+    this.board.obstacles?.forEach((obstacle) => mark(0, obstacle))
+    mark(1, this.state.apple)
+    this.state.powerUps.forEach((powerUp) => mark(2, powerUp.position))
+
+    for (let row = 0; row < size; row++)
+    {
+      for (let column = 0; column < size; column++)
+      {
+        const ahead = radius - row
+        const aside = column - radius
+        const cell = this.resolve([head[0] + forward[0] * ahead + right[0] * aside, head[1] + forward[1] * ahead + right[1] * aside])
+        const index = row * size + column
+
+        if (!cell)
+        {
+          data[index] = 1
+
+          continue
+        }
+
+        for (let channel = 0; channel < RELATIVE_CHANNELS; channel++)
+        {
+          data[channel * size * size + index] = cells[(channel * height + cell[1]) * width + cell[0]]!
+        }
+      }
+    }
+
+    return { data, shape: [RELATIVE_CHANNELS, size, size] }
+  }
+
+  /**
+   * Checks if moving one cell from a position in a direction kills the snake.
+   *
+   * @param from - The position to move from.
+   * @param direction - The direction to move in.
+   * @returns True if the move hits a wall or a snake, false otherwise.
+   */
+  private isDanger(from: Position, direction: Direction): boolean
+  {
+    const next = this.resolve([from[0] + direction[0], from[1] + direction[1]])
+
+    return !next || !this.positionValidator.isFree(next, this.getBlockedPositions())
+  }
+
+  /**
+   * Returns the cells covered by the snakes, except player one's tail which moves away on the next tick.
+   *
+   * @returns The blocked positions.
+   */
+  private getBlockedPositions(): Position[]
+  {
+    const others = this.state.players.slice(1).flatMap((player) => player.snake)
+    const own = this.state.snake.length > 1 ? this.state.snake.slice(0, -1) : this.state.snake
+
+    return [...own, ...others]
+  }
+
+  /**
+   * Brings a position back onto the board, wrapping on a wrapping board.
+   *
+   * @param position - The position to resolve.
+   * @returns The position on the board, or null if it is off a walled board.
+   */
+  private resolve(position: Position): Position | null
+  {
+    if ((this.board.edges ?? 'wrap') === 'wrap')
+    {
+      return this.positionValidator.wrapPosition(position)
+    }
+
+    return this.positionValidator.isValidPosition(position) ? position : null
+  }
+
+  /**
+   * Returns the shortest offset between two positions, over the edges on a wrapping board.
+   *
+   * @param from - The position to measure from.
+   * @param to - The position to measure to.
+   * @returns The offset [dx, dy].
+   */
+  private getOffset(from: Position, to: Position): Position
+  {
+    let dx = to[0] - from[0]
+    let dy = to[1] - from[1]
+
+    if ((this.board.edges ?? 'wrap') === 'wrap')
+    {
+      if (Math.abs(dx) > this.board.width / 2) dx -= Math.sign(dx) * this.board.width
+      if (Math.abs(dy) > this.board.height / 2) dy -= Math.sign(dy) * this.board.height
+    }
+
+    return [dx, dy]
+  }
+
+  /**
+   * Rotates a direction a quarter turn to the left.
+   *
+   * @param direction - The direction to rotate.
+   * @returns The rotated direction.
+   */
+  private turnLeft([dx, dy]: Direction): Direction
+  {
+    return [dy, -dx]
+  }
+
+  /**
+   * Rotates a direction a quarter turn to the right.
+   *
+   * @param direction - The direction to rotate.
+   * @returns The rotated direction.
+   */
+  private turnRight([dx, dy]: Direction): Direction
+  {
+    return [-dy, dx]
+  }
+}
@@ -1,6 +1,7 @@
 import { PositionValidator } from '@utils/PositionValidator'
 import type { IBoardConfig, Position } from '@type/global'
 import { MathUtils } from '@utils/MathUtils'
+import type { IRandom } from '@utils/Random'
 
 /**
  * Represents an Apple entity in the game.
@@ -11,10 +12,10 @@ export class Apple
   private position: Position
   private positionValidator: PositionValidator
 
-  constructor(board: IBoardConfig)
+  constructor(board: IBoardConfig, random?: IRandom, occupiedPositions: Position[] = [])
   {
-    this.positionValidator = new PositionValidator(board)
-    this.position = this.generateNewPosition()
+    this.positionValidator = new PositionValidator(board, random)
+    this.position = this.positionValidator.generateValidPosition(occupiedPositions) || [0, 0]
   }
 
   /**
@@ -48,6 +49,16 @@ export class Apple
     }
   }
 
+  /**
+   * Places the Apple at a given position, e.g. when restoring a saved game.
+   *
+   * @param position - The new position of the Apple.
+   */
+  placeAt(position: Position): void
+  {
+    this.position = [...position] as Position
+  }
+
   /**
    * Checks if the Apple is at a specific position.
    *
@@ -1,4 +1,4 @@
-import type { Direction, IBoardConfig, Position } from '@type/global'
+import type { BoardEdges, Direction, IBoardConfig, Position } from '@type/global'
 import { PositionValidator } from '@utils/PositionValidator'
 import { MathUtils } from '@utils/MathUtils'
 
@@ -11,12 +11,16 @@ export class Snake
   private segments: Position[]
   private direction: Direction
   private positionValidator: PositionValidator
+  private edges: BoardEdges
+  private initialDirection: Direction
 
-  constructor(initialPosition: Position, board: IBoardConfig)
+  constructor(initialPosition: Position, board: IBoardConfig, initialDirection: Direction = [0, -1])
   {
     this.segments = [initialPosition]
-    this.direction = [0, -1]
+    this.initialDirection = initialDirection
+    this.direction = initialDirection
     this.positionValidator = new PositionValidator(board)
+    this.edges = board.edges ?? 'wrap'
   }
 
   /**
@@ -73,6 +77,7 @@ export class Snake
   /**
    * Moves the Snake in its current direction.
    * It adds a new head segment and removes the tail segment.
+   * On a walled board the head is not wrapped and may end up out of bounds.
    *
    * @returns The position of the removed tail segment as a tuple [x, y].
    */
@@ -86,8 +91,8 @@ export class Snake
       head[1] + this.direction[1]
     ]
 
-    const wrappedHead = this.positionValidator.wrapPosition(newHead)
-    this.segments.unshift(wrappedHead)
+    const nextHead = this.edges === 'walls' ? newHead : this.positionValidator.wrapPosition(newHead)
+    this.segments.unshift(nextHead)
 
     const tail = this.segments.pop()!
 
@@ -119,6 +124,25 @@ export class Snake
     })
   }
 
+  /**
+   * Checks if the Snake's head has left the board.
+   *
+   * @returns True if the head is out of bounds, false otherwise.
+   */
+  isOutOfBounds(): boolean
+  {
+    return !this.positionValidator.isValidPosition(this.getHead())
+  }
+
+  /**
+   * Wraps the Snake's head back onto the board.
+   * Used when the Snake passes through a wall without dying.
+   */
+  wrapHead(): void
+  {
+    this.segments[0] = this.positionValidator.wrapPosition(this.getHead())
+  }
+
   /**
    * Checks if the Snake occupies a specific position.
    *
@@ -151,7 +175,19 @@ export class Snake
   reset(initialPosition: Position): void
   {
     this.segments = [initialPosition]
-    this.direction = [0, -1]
+    this.direction = this.initialDirection
+  }
+
+  /**
+   * Restores the Snake's segments and direction, e.g. from a saved game.
+   *
+   * @param segments - The positions of the segments, head first.
+   * @param direction - The direction of the Snake as a tuple [dx, dy].
+   */
+  restore(segments: Position[], direction: Direction): void
+  {
+    this.segments = segments.map((segment) => [...segment] as Position)
+    this.direction = [...direction] as Direction
   }
 
   /**
@@ -3,7 +3,9 @@ export * from './types/global'
 
 // Core classes
 export { GameConfigBuilder } from './config/ConfigBuilder'
-export { DEFAULT_CONFIG, DEFAULT_SPEEDS } from './config/defaults'
+export { DEFAULT_CONFIG, DEFAULT_SPEEDS, MOVEMENT_DIRECTIONS, PLAYER_MOVEMENT_ACTIONS, RIVAL_ICONS } from './config/defaults'
+export { LevelLoader, LevelParseError } from './config/LevelLoader'
+export { KeyBindings, KeyBindingError } from './config/KeyBindings'
 
 // Entities
 export { Snake } from './entities/Snake'
@@ -14,14 +16,57 @@ export { PowerUp } from './powerups/PowerUp'
 export { PowerUpFactory, PowerUpManager } from './powerups/PowerUpManager'
 export { MagnetStrategy, SlowMotionStrategy, BonusStrategy, InvincibilityStrategy, TeleportStrategy, BoostStrategy, FreezeStrategy } from './powerups/PowerUpStrategies'
 
+// Rivals
+export { BaseRivalStrategy } from './ai/BaseRivalStrategy'
+export type { IRivalMove, IRivalStrategy, IRivalView } from './ai/BaseRivalStrategy'
+export { GreedyRivalStrategy, CautiousRivalStrategy, RandomRivalStrategy, RivalFactory } from './ai/RivalStrategies'
+export { AutopilotStrategy } from './ai/Autopilot'
+
+// Controllers
+export type { ISnakeController, ISnakeView } from './controllers/SnakeController'
+export { KeyboardController } from './controllers/KeyboardController'
+export { ScriptedController } from './controllers/ScriptedController'
+export type { IScriptedMove } from './controllers/ScriptedController'
+export { AIController } from './controllers/AIController'
+export { RemoteController } from './controllers/RemoteController'
+
 // Services
 export { InputService } from './services/InputService'
 export { RenderService } from './services/RenderService'
 export { GameStateService } from './services/GameStateService'
+export { CommandInputService } from './services/CommandInputService'
+export type { ICommandTarget } from './services/CommandInputService'
+
+// Renderers
+export type { IRenderer, RenderCell } from './renderers/Renderer'
+export type { IBoxGlyphs, IHudLabels } from './services/RenderService'
+export { AsciiRenderer, ASCII_ICONS, ASCII_BODIES } from './renderers/AsciiRenderer'
+export { NullRenderer } from './renderers/NullRenderer'
+export { CaptureRenderer } from './renderers/CaptureRenderer'
+export { ThemedRenderer } from './renderers/ThemedRenderer'
+export { Themes, ThemeError } from './renderers/Themes'
+export { ColorSupport, ANSI_RESET } from './renderers/ColorSupport'
+export { TerminalSupport } from './renderers/TerminalSupport'
+export { SnakeSprites } from './renderers/SnakeSprites'
+export { RendererFactory } from './renderers/RendererFactory'
 
 // Core
 export { GameEngine } from './core/GameEngine'
+export { Campaign } from './core/Campaign'
+export { ReplayRecorder } from './core/ReplayRecorder'
+export { ReplayPlayer } from './core/ReplayPlayer'
+export { SaveGame } from './core/SaveGame'
+export type { ISaveGame, ISavedActivePowerUp, ISavedPlayer } from './core/SaveGame'
+export { SnakeEnv } from './core/SnakeEnv'
+export { Simulation } from './core/Simulation'
 export { CheatService } from './services/CheatService'
 
 // Utils
 export { MathUtils } from './utils/MathUtils'
+export { TextUtils } from './utils/TextUtils'
+export { SystemClock, ManualClock } from './utils/Clock'
+export type { IClock, TimerHandle } from './utils/Clock'
+export { SystemRandom, SeededRandom } from './utils/Random'
+export type { IRandom } from './utils/Random'
+export { EventEmitter } from './utils/EventEmitter'
+export type { EventListener } from './utils/EventEmitter'
@@ -1,4 +1,5 @@
-import type { IPowerUpContext, IPowerUpStrategy } from '@powerups/PowerUp'
+import type { IPowerUpContext, IPowerUpStrategy, PowerUpSnapshot } from '@powerups/PowerUp'
+import { SystemClock, type IClock } from '@utils/Clock'
 import { TimeManager } from '@utils/TimeManager'
 
 /**
@@ -8,12 +9,13 @@ import { TimeManager } from '@utils/TimeManager'
  */
 export abstract class BasePowerUpStrategy implements IPowerUpStrategy
 {
-  protected timeManager = new TimeManager()
+  protected timeManager: TimeManager
   protected readonly duration: number
 
-  constructor(duration: number)
+  constructor(duration: number, clock: IClock = new SystemClock())
   {
     this.duration = duration
+    this.timeManager = new TimeManager(clock)
   }
 
   /**
@@ -45,6 +47,33 @@ export abstract class BasePowerUpStrategy implements IPowerUpStrategy
     this.timeManager.clearAll()
   }
 
+  /**
+   * Clears all timers, leaving the effect in place.
+   */
+  cancel(): void
+  {
+    this.timeManager.clearAll()
+  }
+
+  /**
+   * Resumes an effect restored from a save game.
+   * The effect itself is already part of the restored game, so only the internal
+   * state of the strategy and the removal timer are re-armed.
+   *
+   * @param context - The context in which the power-up is applied.
+   * @param remainingTime - The time left before the effect ends, in milliseconds.
+   * @param snapshot - The snapshot returned by getSnapshot() when the game was saved.
+   */
+  resume(context: IPowerUpContext, remainingTime: number, snapshot: PowerUpSnapshot): void
+  {
+    this.restoreSnapshot?.(context, snapshot)
+
+    this.timeManager.setTimeout(() =>
+    {
+      this.remove(context)
+    }, Math.max(0, remainingTime))
+  }
+
   /**
    * Gets the duration of the power-up.
    *
@@ -55,6 +84,26 @@ export abstract class BasePowerUpStrategy implements IPowerUpStrategy
     return this.duration
   }
 
+  /**
+   * Returns the values the strategy needs to undo its effect.
+   * Strategies that keep such values override this method.
+   *
+   * @returns The snapshot of the strategy.
+   */
+  getSnapshot(): PowerUpSnapshot
+  {
+    return {}
+  }
+
+  /**
+   * Restores the values returned by getSnapshot().
+   * Only strategies that keep such values implement this method.
+   *
+   * @param context - The context in which the power-up is applied.
+   * @param snapshot - The snapshot to restore.
+   */
+  protected restoreSnapshot?(context: IPowerUpContext, snapshot: PowerUpSnapshot): void
+
   /**
    * Abstract method to apply the specific power-up effect.
    * Must be implemented by subclasses.
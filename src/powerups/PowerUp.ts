@@ -32,11 +32,19 @@ export interface IPowerUpContext
   resumeGame(): void
 }
 
+/**
+ * Internal values a strategy needs to undo its effect, stored in save games.
+ */
+export type PowerUpSnapshot = Record<string, string | number>
+
 export interface IPowerUpStrategy
 {
   apply(context: IPowerUpContext): void
   remove?(context: IPowerUpContext): void
   getDuration(): number
+  getSnapshot?(): PowerUpSnapshot
+  resume?(context: IPowerUpContext, remainingTime: number, snapshot: PowerUpSnapshot): void
+  cancel?(): void
 }
 
 /**
@@ -52,11 +60,11 @@ export class PowerUp
 
   private strategy: IPowerUpStrategy
 
-  constructor(position: Position, type: PowerUpType, strategy: IPowerUpStrategy)
+  constructor(position: Position, type: PowerUpType, strategy: IPowerUpStrategy, createdAt: number = Date.now())
   {
     this.position = position
     this.type = type
-    this.createdAt = Date.now()
+    this.createdAt = createdAt
     this.strategy = strategy
   }
 
@@ -85,6 +93,42 @@ export class PowerUp
     }
   }
 
+  /**
+   * Returns the values the strategy needs to undo its effect later.
+   *
+   * @returns The snapshot of the strategy, empty if it has none.
+   */
+  getSnapshot(): PowerUpSnapshot
+  {
+    return this.strategy.getSnapshot ? this.strategy.getSnapshot() : {}
+  }
+
+  /**
+   * Resumes an effect restored from a save game, removing it once the remaining time has elapsed.
+   *
+   * @param context - The context in which the power-up is applied.
+   * @param remainingTime - The time left before the effect ends, in milliseconds.
+   * @param snapshot - The snapshot returned by getSnapshot() when the game was saved.
+   */
+  resume(context: IPowerUpContext, remainingTime: number, snapshot: PowerUpSnapshot): void
+  {
+    if (this.strategy.resume)
+    {
+      this.strategy.resume(context, remainingTime, snapshot)
+    }
+  }
+
+  /**
+   * Stops the timers of a running effect without undoing it, e.g. when the game is stopped.
+   */
+  cancel(): void
+  {
+    if (this.strategy.cancel)
+    {
+      this.strategy.cancel()
+    }
+  }
+
   /**
    * Returns the duration of the power-up effect.
    * This is defined by the strategy associated with the power-up.
@@ -3,6 +3,8 @@ import type { PowerUpType, Position, IPowerUpConfig, IPowerUpSettings, IBoardCon
 import { PowerUp, type IPowerUpStrategy } from '@powerups/PowerUp'
 import { MathUtils } from '@utils/MathUtils'
 import { PositionValidator } from '@utils/PositionValidator'
+import { SystemClock, type IClock } from '@utils/Clock'
+import { SystemRandom, type IRandom } from '@utils/Random'
 
 /**
  * Factory class for creating power-ups.
@@ -14,15 +16,15 @@ export class PowerUpFactory
    * Maps power-up types to their strategies.
    * Each strategy is a function that returns an instance of IPowerUpStrategy.
    */
-  private static strategyMap: Record<PowerUpType, (duration: number) => IPowerUpStrategy> =
+  private static strategyMap: Record<PowerUpType, (duration: number, clock: IClock) => IPowerUpStrategy> =
   {
-    magnet: (duration) => new MagnetStrategy(duration),
-    slowMotion: (duration) => new SlowMotionStrategy(duration),
-    bonus: (duration) => new BonusStrategy(duration),
-    invincibility: (duration) => new InvincibilityStrategy(duration),
+    magnet: (duration, clock) => new MagnetStrategy(duration, clock),
+    slowMotion: (duration, clock) => new SlowMotionStrategy(duration, clock),
+    bonus: (duration, clock) => new BonusStrategy(duration, clock),
+    invincibility: (duration, clock) => new InvincibilityStrategy(duration, clock),
     teleport: () => new TeleportStrategy(),
-    boost: (duration) => new BoostStrategy(duration),
-    freeze: (duration) => new FreezeStrategy(duration)
+    boost: (duration, clock) => new BoostStrategy(duration, clock),
+    freeze: (duration, clock) => new FreezeStrategy(duration, clock)
   }
 
   /**
@@ -32,12 +34,14 @@ export class PowerUpFactory
    * @param position - The position of the power-up on the board.
    * @param type - The type of the power-up.
    * @param duration - The duration of the power-up effect.
+   * @param clock - The clock used for the creation time and effect timers.
+   * @param createdAt - The creation time, e.g. of a power-up restored from a save (default is now).
    */
-  static createPowerUp(position: Position, type: PowerUpType, duration = 2000): PowerUp
+  static createPowerUp(position: Position, type: PowerUpType, duration = 2000, clock: IClock = new SystemClock(), createdAt: number = clock.now()): PowerUp
   {
-    const strategy = this.strategyMap[type](duration)
+    const strategy = this.strategyMap[type](duration, clock)
 
-    return new PowerUp(position, type, strategy)
+    return new PowerUp(position, type, strategy, createdAt)
   }
 
   /**
@@ -60,11 +64,15 @@ export class PowerUpManager
   private activePowerUps: PowerUp[] = []
   private config: IPowerUpConfig
   private positionValidator: PositionValidator
+  private clock: IClock
+  private random: IRandom
 
-  constructor(config: IPowerUpConfig, board: IBoardConfig)
+  constructor(config: IPowerUpConfig, board: IBoardConfig, clock: IClock = new SystemClock(), random: IRandom = new SystemRandom())
   {
     this.config = config
-    this.positionValidator = new PositionValidator(board)
+    this.positionValidator = new PositionValidator(board, random)
+    this.clock = clock
+    this.random = random
   }
 
   /**
@@ -80,13 +88,13 @@ export class PowerUpManager
 
     for (const [type, settings] of Object.entries(this.config) as [PowerUpType, IPowerUpSettings][])
     {
-      if (settings.enabled && MathUtils.shouldHappen(settings.probability))
+      if (settings.enabled && MathUtils.shouldHappen(settings.probability, this.random))
       {
         const position = this.getValidPosition(occupiedPositions)
 
         if (position)
         {
-          const powerUp = PowerUpFactory.createPowerUp(position, type, settings.duration)
+          const powerUp = PowerUpFactory.createPowerUp(position, type, settings.duration, this.clock)
 
           newPowerUps.push(powerUp)
           occupiedPositions.push(position)
@@ -101,17 +109,20 @@ export class PowerUpManager
    * Adds a power-up to the active list if it does not already exist.
    *
    * @param powerUp - The power-up to be added.
+   * @returns True if the power-up was added, false if one of the same type already exists.
    */
-  addPowerUp(powerUp: PowerUp): void
+  addPowerUp(powerUp: PowerUp): boolean
   {
     const existingIndex = this.activePowerUps.findIndex((p) => p.type === powerUp.type)
 
     if (existingIndex !== -1)
     {
-      return
+      return false
     }
 
     this.activePowerUps.push(powerUp)
+
+    return true
   }
 
   /**
@@ -1,5 +1,11 @@
 import { BasePowerUpStrategy, InstantPowerUpStrategy } from './BasePowerUpStrategy'
-import type { IPowerUpContext } from '@powerups/PowerUp'
+import type { IPowerUpContext, PowerUpSnapshot } from '@powerups/PowerUp'
+import type { IClock, TimerHandle } from '@utils/Clock'
+
+/**
+ * Background icon the bonus power-up flashes, so renderers can tell the bonus is active.
+ */
+export const BONUS_BACKGROUND_ICON = '🟦'
 
 /**
  * Strategy for the Magnet power-up.
@@ -9,9 +15,9 @@ import type { IPowerUpContext } from '@powerups/PowerUp'
  */
 export class MagnetStrategy extends BasePowerUpStrategy
 {
-  constructor(duration: number = 2000)
+  constructor(duration: number = 2000, clock?: IClock)
   {
-    super(duration)
+    super(duration, clock)
   }
 
   protected override applyEffect(context: IPowerUpContext): void
@@ -35,9 +41,9 @@ export class SlowMotionStrategy extends BasePowerUpStrategy
 {
   private orignalUpdateTime: number = 0
 
-  constructor(duration: number = 2000)
+  constructor(duration: number = 2000, clock?: IClock)
   {
-    super(duration)
+    super(duration, clock)
   }
 
   protected override applyEffect(context: IPowerUpContext): void
@@ -55,6 +61,16 @@ export class SlowMotionStrategy extends BasePowerUpStrategy
     context.clearInterval()
     context.setInterval(() => {}, this.orignalUpdateTime)
   }
+
+  override getSnapshot(): PowerUpSnapshot
+  {
+    return { originalUpdateTime: this.orignalUpdateTime }
+  }
+
+  protected override restoreSnapshot(context: IPowerUpContext, snapshot: PowerUpSnapshot): void
+  {
+    this.orignalUpdateTime = Number(snapshot.originalUpdateTime ?? context.getUpdateTime())
+  }
 }
 
 /**
@@ -70,11 +86,11 @@ export class BonusStrategy extends BasePowerUpStrategy
 {
   private originalBackgroundIcon: string = ''
   private originalScorePerApple: number = 0
-  private intervalId: Timer | null = null
+  private intervalId: TimerHandle | null = null
 
-  constructor(duration: number = 2000)
+  constructor(duration: number = 2000, clock?: IClock)
   {
-    super(duration)
+    super(duration, clock)
   }
 
   /**
@@ -90,10 +106,42 @@ export class BonusStrategy extends BasePowerUpStrategy
 
     context.setScorePerApple(15)
 
+    this.startFlashing(context)
+  }
+
+  override getSnapshot(): PowerUpSnapshot
+  {
+    return {
+      originalBackgroundIcon: this.originalBackgroundIcon,
+      originalScorePerApple: this.originalScorePerApple
+    }
+  }
+
+  /**
+   * Restores the original values and restarts the flashing background.
+   *
+   * @param context - The context in which the power-up is applied.
+   * @param snapshot - The snapshot to restore.
+   */
+  protected override restoreSnapshot(context: IPowerUpContext, snapshot: PowerUpSnapshot): void
+  {
+    this.originalBackgroundIcon = String(snapshot.originalBackgroundIcon ?? context.getBackgroundIcon())
+    this.originalScorePerApple = Number(snapshot.originalScorePerApple ?? context.getScorePerApple())
+
+    this.startFlashing(context)
+  }
+
+  /**
+   * Starts flashing the background icon at the speed of the game.
+   *
+   * @param context - The context in which the power-up is applied.
+   */
+  private startFlashing(context: IPowerUpContext): void
+  {
     this.intervalId = this.timeManager.setInterval(() =>
     {
       const currentIcon = context.getBackgroundIcon()
-      const newIcon = currentIcon === '🟦' ? '⬜' : '🟦'
+      const newIcon = currentIcon === BONUS_BACKGROUND_ICON ? '⬜' : BONUS_BACKGROUND_ICON
 
       context.setBackgroundIcon(newIcon)
       context.redraw()
@@ -127,9 +175,9 @@ export class BonusStrategy extends BasePowerUpStrategy
  */
 export class InvincibilityStrategy extends BasePowerUpStrategy
 {
-  constructor(duration: number = 3000)
+  constructor(duration: number = 3000, clock?: IClock)
   {
-    super(duration)
+    super(duration, clock)
   }
 
   /**
@@ -164,9 +212,9 @@ export class BoostStrategy extends BasePowerUpStrategy
 {
   private originalUpdateTime: number = 0
 
-  constructor(duration: number = 2000)
+  constructor(duration: number = 2000, clock?: IClock)
   {
-    super(duration)
+    super(duration, clock)
   }
 
   /**
@@ -196,6 +244,16 @@ export class BoostStrategy extends BasePowerUpStrategy
     context.clearInterval()
     context.setInterval(() => {}, this.originalUpdateTime)
   }
+
+  override getSnapshot(): PowerUpSnapshot
+  {
+    return { originalUpdateTime: this.originalUpdateTime }
+  }
+
+  protected override restoreSnapshot(context: IPowerUpContext, snapshot: PowerUpSnapshot): void
+  {
+    this.originalUpdateTime = Number(snapshot.originalUpdateTime ?? context.getUpdateTime())
+  }
 }
 
 /**
@@ -224,9 +282,9 @@ export class TeleportStrategy extends InstantPowerUpStrategy
  */
 export class FreezeStrategy extends BasePowerUpStrategy
 {
-  constructor(duration: number = 1500)
+  constructor(duration: number = 1500, clock?: IClock)
   {
-    super(duration)
+    super(duration, clock)
   }
 
   /**
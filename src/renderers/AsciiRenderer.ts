@@ -0,0 +1,155 @@
+import type { AsciiCharset, IBoardConfig, IGameState, IIconsConfig, IPlayerState } from '@type/global'
+import type { RenderCell } from '@renderers/Renderer'
+import { RenderService, type IBoxGlyphs } from '@services/RenderService'
+import { SystemClock, type IClock } from '@utils/Clock'
+import { DEFAULT_CONFIG } from '@config/defaults'
+
+/**
+ * Characters the game elements are drawn with, one column wide each.
+ * The snake icons are the heads, bodies are drawn with ASCII_BODIES.
+ */
+export const ASCII_ICONS: IIconsConfig =
+{
+  background: '.',
+  border: '#',
+  wall: '#',
+  snake: '@',
+  snakeTwo: '&',
+  apple: '*',
+  magnet: 'M',
+  slowMotion: 'S',
+  bonus: 'B',
+  invincibility: 'I',
+  teleport: 'T',
+  boost: 'Z',
+  freeze: 'F',
+}
+
+/**
+ * Characters the bodies of player one's and player two's snakes are drawn with.
+ */
+export const ASCII_BODIES: [string, string] = ['o', 'x']
+
+/**
+ * Characters rival snakes are drawn with: a shared head, and a body letter given in turn
+ * that also stands for the rival in the status line.
+ */
+const ASCII_RIVAL_HEAD = '%'
+const ASCII_RIVAL_BODIES = ['a', 'b', 'c', 'd']
+
+/**
+ * Box-drawing characters of the border and walls in the 'unicode' charset.
+ */
+const UNICODE_BOX: IBoxGlyphs =
+{
+  horizontal: '─',
+  vertical: '│',
+  topLeft: '┌',
+  topRight: '┐',
+  bottomLeft: '└',
+  bottomRight: '┘',
+}
+
+/**
+ * Characters of the 'unicode' charset, with sprites for player one's snake drawn in heavy lines.
+ */
+const UNICODE_ICONS: IIconsConfig =
+{
+  ...ASCII_ICONS,
+  background: ' ',
+  border: '│',
+  wall: '█',
+  snakeHeadUp: '▲',
+  snakeHeadDown: '▼',
+  snakeHeadLeft: '◀',
+  snakeHeadRight: '▶',
+  snakeBodyHorizontal: '━',
+  snakeBodyVertical: '┃',
+  snakeBodyUpLeft: '┛',
+  snakeBodyUpRight: '┗',
+  snakeBodyDownLeft: '┓',
+  snakeBodyDownRight: '┏',
+  snakeTailUp: '╹',
+  snakeTailDown: '╻',
+  snakeTailLeft: '╸',
+  snakeTailRight: '╺',
+}
+
+/**
+ * AsciiRenderer draws the game on a terminal with single-column characters,
+ * for terminals, SSH sessions and logs without emoji fonts.
+ * The configured icons are ignored, every element has a fixed character.
+ *
+ * The 'ascii' charset only uses printable ASCII characters. The 'unicode' charset
+ * draws the border with box-drawing characters, the walls as solid blocks and
+ * player one's snake with directional sprites, for UTF-8 terminals whose fonts have no emoji.
+ */
+export class AsciiRenderer extends RenderService
+{
+  private charsetIcons: IIconsConfig
+
+  constructor(board: IBoardConfig = DEFAULT_CONFIG.board, clock: IClock = new SystemClock(), output: NodeJS.WritableStream = process.stdout, charset: AsciiCharset = 'ascii')
+  {
+    const icons = charset === 'unicode' ? UNICODE_ICONS : ASCII_ICONS
+
+    super(board, icons, clock, output)
+
+    this.charsetIcons = icons
+    this.boxGlyphs = charset === 'unicode' ? UNICODE_BOX : null
+    this.labels = { score: 'Score', length: 'Length', autopilot: 'AUTO' }
+  }
+
+  /**
+   * Keeps the charset's characters whatever icons the game is configured with.
+   */
+  override updateIcons(): void
+  {
+    this.icons = this.charsetIcons
+  }
+
+  protected override getCellWidth(): number
+  {
+    return 1
+  }
+
+  protected override drawCell(cell: RenderCell, gameState: IGameState): string
+  {
+    if (cell.kind !== 'snake')
+    {
+      return super.drawCell(cell, gameState)
+    }
+
+    const sprite = this.getSnakeSprite(cell, gameState)
+
+    if (sprite)
+    {
+      return sprite
+    }
+
+    const players = this.getPlayers(gameState)
+
+    if (players[cell.player]?.rival && cell.segment === 0)
+    {
+      return ASCII_RIVAL_HEAD
+    }
+
+    if (players[cell.player]?.rival || cell.segment === 0)
+    {
+      return this.getPlayerIcon(players, cell.player)
+    }
+
+    return ASCII_BODIES[cell.player === 0 ? 0 : 1]
+  }
+
+  protected override getPlayerIcon(players: Pick<IPlayerState, 'icon' | 'rival'>[], index: number): string
+  {
+    if (players[index]?.rival)
+    {
+      const rivalIndex = players.slice(0, index).filter((player) => player.rival).length
+
+      return ASCII_RIVAL_BODIES[rivalIndex % ASCII_RIVAL_BODIES.length]!
+    }
+
+    return index === 0 ? this.icons.snake : this.icons.snakeTwo
+  }
+}
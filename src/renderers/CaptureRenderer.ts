@@ -0,0 +1,86 @@
+import type { IBoardConfig, IGameState } from '@type/global'
+import { AsciiRenderer } from '@renderers/AsciiRenderer'
+import { SystemClock, type IClock } from '@utils/Clock'
+import { DEFAULT_CONFIG } from '@config/defaults'
+
+/**
+ * CaptureRenderer keeps every frame as a string instead of writing it, for tests.
+ * Frames are drawn with ASCII characters and have no escape sequences, so they
+ * can be compared with expected boards directly.
+ */
+export class CaptureRenderer extends AsciiRenderer
+{
+  private frames: string[] = []
+
+  constructor(board: IBoardConfig = DEFAULT_CONFIG.board, clock: IClock = new SystemClock())
+  {
+    super(board, clock)
+  }
+
+  /**
+   * Captures a frame, unless it is the same as the previous one.
+   *
+   * @param gameState - The current state of the game.
+   */
+  override render(gameState: IGameState): void
+  {
+    const frame = this.buildFrame(gameState)
+
+    if (frame !== this.getLastFrame())
+    {
+      this.frames.push(frame)
+    }
+  }
+
+  /**
+   * Captures a frame, even if it is the same as the previous one.
+   *
+   * @param gameState - The current state of the game.
+   */
+  override forceRender(gameState: IGameState): void
+  {
+    this.frames.push(this.buildFrame(gameState))
+  }
+
+  /**
+   * Captures a full-screen message.
+   *
+   * @param lines - The lines of the message.
+   */
+  override renderScreen(lines: string[]): void
+  {
+    this.frames.push(this.buildScreen(lines))
+  }
+
+  /**
+   * Returns every frame captured so far.
+   *
+   * @returns The frames, oldest first.
+   */
+  getFrames(): string[]
+  {
+    return [...this.frames]
+  }
+
+  /**
+   * Returns the last frame captured.
+   *
+   * @returns The frame, or an empty string if nothing was drawn yet.
+   */
+  getLastFrame(): string
+  {
+    return this.frames[this.frames.length - 1] ?? ''
+  }
+
+  /**
+   * Forgets the frames captured so far.
+   */
+  clear(): void
+  {
+    this.frames = []
+  }
+
+  protected override write(): void
+  {
+  }
+}
@@ -0,0 +1,154 @@
+import type { ColorMode } from '@type/global'
+
+/**
+ * Escape sequence that resets every color and style.
+ */
+export const ANSI_RESET = '\x1b[0m'
+
+/**
+ * Levels of the 6×6×6 color cube of the 256-color palette.
+ */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255]
+
+/**
+ * ColorSupport detects the colors a terminal can show and builds the ANSI escape sequences for them.
+ * Colors are given as `#rrggbb` and approximated on terminals without truecolor support.
+ */
+export class ColorSupport
+{
+  /**
+   * Detects the colors a terminal can show from its environment.
+   * `NO_COLOR` disables colors, `COLORTERM=truecolor` or `24bit` enables truecolor,
+   * and any other terminal gets the 256-color palette.
+   *
+   * @param env - The environment variables, e.g. process.env.
+   * @param isTTY - Whether the output is a terminal.
+   * @returns The color mode to render with.
+   */
+  static detect(env: Record<string, string | undefined> = process.env, isTTY: boolean = process.stdout.isTTY === true): ColorMode
+  {
+    if (env.NO_COLOR !== undefined && env.NO_COLOR !== '')
+    {
+      return 'none'
+    }
+
+    if (!isTTY || env.TERM === 'dumb')
+    {
+      return 'none'
+    }
+
+    const colorTerm = env.COLORTERM?.toLowerCase()
+
+    if (colorTerm === 'truecolor' || colorTerm === '24bit' || env.WT_SESSION !== undefined)
+    {
+      return 'truecolor'
+    }
+
+    return 'ansi256'
+  }
+
+  /**
+   * Checks if a color is written as `#rrggbb`.
+   *
+   * @param color - The color to check.
+   * @returns True if the color is valid, false otherwise.
+   */
+  static isColor(color: string): boolean
+  {
+    return /^#[0-9a-f]{6}$/i.test(color)
+  }
+
+  /**
+   * Returns the escape sequence setting the text color.
+   *
+   * @param color - The color as `#rrggbb`.
+   * @param mode - The colors the terminal can show.
+   * @returns The escape sequence, empty without color support.
+   */
+  static foreground(color: string, mode: ColorMode): string
+  {
+    return this.escape(38, color, mode)
+  }
+
+  /**
+   * Returns the escape sequence setting the background color.
+   *
+   * @param color - The color as `#rrggbb`.
+   * @param mode - The colors the terminal can show.
+   * @returns The escape sequence, empty without color support.
+   */
+  static background(color: string, mode: ColorMode): string
+  {
+    return this.escape(48, color, mode)
+  }
+
+  /**
+   * Finds the nearest color of the 256-color palette, among the color cube and the gray ramp.
+   *
+   * @param color - The color as `#rrggbb`.
+   * @returns The index of the palette color, from 16 to 255.
+   */
+  static toAnsi256(color: string): number
+  {
+    const [r, g, b] = this.toRgb(color)
+    const nearestLevel = (value: number): number =>
+    {
+      return CUBE_LEVELS.reduce((best, level, index) =>
+      {
+        return Math.abs(level - value) < Math.abs(CUBE_LEVELS[best]! - value) ? index : best
+      }, 0)
+    }
+
+    const cube = [nearestLevel(r), nearestLevel(g), nearestLevel(b)]
+    const cubeColor = cube.map((index) => CUBE_LEVELS[index]!)
+
+    const gray = Math.min(23, Math.max(0, Math.round(((r + g + b) / 3 - 8) / 10)))
+    const grayLevel = 8 + gray * 10
+
+    const distance = (rgb: number[]): number =>
+    {
+      return (rgb[0]! - r) ** 2 + (rgb[1]! - g) ** 2 + (rgb[2]! - b) ** 2
+    }
+
+    if (distance([grayLevel, grayLevel, grayLevel]) < distance(cubeColor))
+    {
+      return 232 + gray
+    }
+
+    return 16 + cube[0]! * 36 + cube[1]! * 6 + cube[2]!
+  }
+
+  /**
+   * Builds the escape sequence of a text or background color.
+   *
+   * @param target - 38 for the text color, 48 for the background color.
+   * @param color - The color as `#rrggbb`.
+   * @param mode - The colors the terminal can show.
+   * @returns The escape sequence, empty without color support.
+   */
+  private static escape(target: 38 | 48, color: string, mode: ColorMode): string
+  {
+    switch (mode)
+    {
+      case 'truecolor':
+        return `\x1b[${target};2;${this.toRgb(color).join(';')}m`
+      case 'ansi256':
+        return `\x1b[${target};5;${this.toAnsi256(color)}m`
+      case 'none':
+        return ''
+    }
+  }
+
+  /**
+   * Splits a color into its red, green and blue components.
+   *
+   * @param color - The color as `#rrggbb`.
+   * @returns The components, from 0 to 255.
+   */
+  private static toRgb(color: string): [number, number, number]
+  {
+    const value = parseInt(color.slice(1), 16)
+
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+  }
+}
@@ -0,0 +1,31 @@
+import type { IRenderer } from '@renderers/Renderer'
+
+/**
+ * NullRenderer draws nothing, e.g. for a bot or a server running games without a display.
+ */
+export class NullRenderer implements IRenderer
+{
+  render(): void
+  {
+  }
+
+  forceRender(): void
+  {
+  }
+
+  renderScreen(): void
+  {
+  }
+
+  setOverlayMessage(): void
+  {
+  }
+
+  updateIcons(): void
+  {
+  }
+
+  updateBoard(): void
+  {
+  }
+}
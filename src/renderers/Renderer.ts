@@ -0,0 +1,86 @@
+import type { IBoardConfig, IGameState, IIconsConfig, PowerUpType } from '@type/global'
+
+/**
+ * What a cell of the board holds, as seen by a renderer.
+ * Snake cells tell which player the snake belongs to and which segment it is, 0 being the head.
+ */
+export type RenderCell =
+  | { kind: 'background' }
+  | { kind: 'wall' }
+  | { kind: 'apple' }
+  | { kind: 'powerUp', type: PowerUpType }
+  | { kind: 'snake', player: number, segment: number }
+
+/**
+ * Draws the game for a host: a terminal, a web page, a bot or a test.
+ *
+ * The engine hands the renderer the whole game state on every tick and never
+ * draws anything itself, so any output can be plugged in through
+ * GameConfigBuilder.setRenderer().
+ */
+export interface IRenderer
+{
+  /**
+   * Draws the game state, skipping the output if nothing changed since the last frame.
+   *
+   * @param gameState - The current state of the game.
+   */
+  render(gameState: IGameState): void
+
+  /**
+   * Redraws the whole game state, even if nothing changed since the last frame.
+   *
+   * @param gameState - The current state of the game.
+   */
+  forceRender(gameState: IGameState): void
+
+  /**
+   * Draws a full-screen message instead of the board, e.g. an intermission between levels.
+   *
+   * @param lines - The lines of the message.
+   */
+  renderScreen(lines: string[]): void
+
+  /**
+   * Sets a temporary message shown below the board, or clears it with an empty string.
+   *
+   * @param message - The message to show.
+   */
+  setOverlayMessage(message: string): void
+
+  /**
+   * Updates the icons of the game elements.
+   *
+   * @param icons - The icons to use.
+   */
+  updateIcons(icons: IIconsConfig): void
+
+  /**
+   * Updates the board being drawn.
+   *
+   * @param board - The board configuration.
+   */
+  updateBoard(board: IBoardConfig): void
+
+  /**
+   * Sizes a board to fill the display, for boards set to 'auto'.
+   *
+   * @param board - The board configuration.
+   * @returns The board with the largest width and height that fit.
+   */
+  fitBoard?(board: IBoardConfig): IBoardConfig
+
+  /**
+   * Registers a listener called when the board stops or starts fitting on the display,
+   * e.g. after the terminal is resized.
+   *
+   * @param listener - Called with true when the board fits again, false when it no longer does.
+   */
+  onFitChange?(listener: (fits: boolean) => void): void
+
+  /**
+   * Releases what the renderer holds, e.g. terminal listeners.
+   * Called when the engine stops.
+   */
+  dispose?(): void
+}
@@ -0,0 +1,79 @@
+import type { IGameConfig, RendererType } from '@type/global'
+import type { IRenderer } from '@renderers/Renderer'
+import type { IClock } from '@utils/Clock'
+import { RenderService } from '@services/RenderService'
+import { AsciiRenderer } from '@renderers/AsciiRenderer'
+import { NullRenderer } from '@renderers/NullRenderer'
+import { ThemedRenderer } from '@renderers/ThemedRenderer'
+import { ColorSupport } from '@renderers/ColorSupport'
+import { Themes } from '@renderers/Themes'
+import { TerminalSupport } from '@renderers/TerminalSupport'
+
+/**
+ * Factory class for creating the built-in renderers.
+ */
+export class RendererFactory
+{
+  /**
+   * Maps renderer types to their constructors.
+   */
+  private static rendererMap: Record<RendererType, (config: IGameConfig, clock: IClock) => IRenderer> =
+  {
+    auto: (config, clock) => this.createRenderer(this.detectRenderer(config), config, clock),
+    emoji: (config, clock) => new RenderService(config.board, config.icons, clock),
+    ascii: (config, clock) => new AsciiRenderer(config.board, clock),
+    box: (config, clock) => new AsciiRenderer(config.board, clock, process.stdout, 'unicode'),
+    color: (config, clock) =>
+    {
+      const colorMode = config.game.colorMode ?? 'auto'
+
+      return new ThemedRenderer(
+        config.board,
+        config.theme ?? Themes.get('classic'),
+        colorMode === 'auto' ? ColorSupport.detect() : colorMode,
+        clock
+      )
+    },
+    none: () => new NullRenderer()
+  }
+
+  /**
+   * Creates a renderer drawing on the terminal.
+   *
+   * @param type - The type of renderer.
+   * @param config - The game configuration, for the board, icons, theme and color mode.
+   * @param clock - The clock of the game, for blinking effects.
+   * @returns A new renderer.
+   */
+  static createRenderer(type: RendererType, config: IGameConfig, clock: IClock): IRenderer
+  {
+    return this.rendererMap[type](config, clock)
+  }
+
+  /**
+   * Picks the renderer suiting the terminal: the color renderer if a theme is set,
+   * the emoji renderer on UTF-8 terminals, and the ASCII renderer on the others.
+   *
+   * @param config - The game configuration.
+   * @returns The type of renderer to create.
+   */
+  static detectRenderer(config: IGameConfig): Exclude<RendererType, 'auto'>
+  {
+    if (!TerminalSupport.isUtf8())
+    {
+      return 'ascii'
+    }
+
+    return config.theme ? 'color' : 'emoji'
+  }
+
+  /**
+   * Returns the list of available renderer types.
+   *
+   * @returns An array of renderer types.
+   */
+  static getAvailableRenderers(): RendererType[]
+  {
+    return Object.keys(this.rendererMap) as RendererType[]
+  }
+}
@@ -0,0 +1,127 @@
+import { Movement, type Direction, type IBoardConfig, type Position, type SnakeSprite } from '@type/global'
+import { MOVEMENT_DIRECTIONS } from '@config/defaults'
+import { MathUtils } from '@utils/MathUtils'
+
+/**
+ * Movements in the order corners are named: vertical ones first.
+ */
+const MOVEMENTS: Movement[] = [Movement.Up, Movement.Down, Movement.Left, Movement.Right]
+
+/**
+ * Capitalized names of the movements, as they appear in sprite names.
+ */
+const MOVEMENT_NAMES: Record<Movement, string> =
+{
+  [Movement.Up]: 'Up',
+  [Movement.Down]: 'Down',
+  [Movement.Left]: 'Left',
+  [Movement.Right]: 'Right',
+}
+
+/**
+ * SnakeSprites works out which sprite draws each segment of a snake from the segments around it.
+ *
+ * Heads and tails are named after the direction the snake is heading, e.g. 'snakeTailUp'
+ * is a tail with the rest of the body above it. Straight bodies are horizontal or vertical,
+ * and corners are named after the two sides they join, e.g. 'snakeBodyUpLeft' joins the
+ * segments above and on the left. Segments on both sides of a wrapping edge are neighbors.
+ */
+export class SnakeSprites
+{
+  /**
+   * Returns the sprite of a segment of a snake.
+   *
+   * @param snake - The segments of the snake, head first.
+   * @param index - The index of the segment to draw.
+   * @param board - The board, to join segments across wrapping edges.
+   * @param direction - The direction of the snake, for the head of a single segment snake.
+   * @returns The sprite, or null if the segment is not next to its neighbors, e.g. after a teleport.
+   */
+  static getSprite(snake: Position[], index: number, board: IBoardConfig, direction?: Direction): SnakeSprite | null
+  {
+    const segment = snake[index]
+
+    if (!segment)
+    {
+      return null
+    }
+
+    const toPrevious = index > 0 ? this.getMovement(segment, snake[index - 1]!, board) : null
+    const toNext = index < snake.length - 1 ? this.getMovement(segment, snake[index + 1]!, board) : null
+
+    if (index === 0)
+    {
+      const heading = toNext ? this.opposite(toNext) : this.toMovement(direction)
+
+      return heading ? `snakeHead${MOVEMENT_NAMES[heading]}` as SnakeSprite : null
+    }
+
+    if (index === snake.length - 1)
+    {
+      return toPrevious ? `snakeTail${MOVEMENT_NAMES[toPrevious]}` as SnakeSprite : null
+    }
+
+    if (!toPrevious || !toNext || toPrevious === toNext)
+    {
+      return null
+    }
+
+    if (toPrevious === this.opposite(toNext))
+    {
+      return toPrevious === Movement.Up || toPrevious === Movement.Down ? 'snakeBodyVertical' : 'snakeBodyHorizontal'
+    }
+
+    const [first, second] = [toPrevious, toNext].sort((a, b) => MOVEMENTS.indexOf(a) - MOVEMENTS.indexOf(b))
+
+    return `snakeBody${MOVEMENT_NAMES[first!]}${MOVEMENT_NAMES[second!]}` as SnakeSprite
+  }
+
+  /**
+   * Finds the movement leading from a position to a neighboring one.
+   *
+   * @param from - The starting position.
+   * @param to - The neighboring position.
+   * @param board - The board, to step across wrapping edges.
+   * @returns The movement, or null if the positions are not neighbors.
+   */
+  private static getMovement(from: Position, to: Position, board: IBoardConfig): Movement | null
+  {
+    return MOVEMENTS.find((movement) =>
+    {
+      const [dx, dy] = MOVEMENT_DIRECTIONS[movement]
+      const next: Position = [from[0] + dx, from[1] + dy]
+      const neighbor = board.edges === 'walls' ? next : MathUtils.wrapPosition(next, board.width, board.height)
+
+      return MathUtils.positionsEqual(neighbor, to)
+    }) ?? null
+  }
+
+  /**
+   * Finds the movement of a direction vector.
+   *
+   * @param direction - The direction, if known.
+   * @returns The movement, or null if the direction is unknown or not a single step.
+   */
+  private static toMovement(direction?: Direction): Movement | null
+  {
+    if (!direction)
+    {
+      return null
+    }
+
+    return MOVEMENTS.find((movement) => MathUtils.positionsEqual(MOVEMENT_DIRECTIONS[movement], direction)) ?? null
+  }
+
+  /**
+   * Returns the opposite of a movement.
+   *
+   * @param movement - The movement to reverse.
+   * @returns The opposite movement.
+   */
+  private static opposite(movement: Movement): Movement
+  {
+    const [dx, dy] = MOVEMENT_DIRECTIONS[movement]
+
+    return this.toMovement([-dx, -dy])!
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * TerminalSupport detects what characters a terminal can show.
+ */
+export class TerminalSupport
+{
+  /**
+   * Checks if a terminal decodes its output as UTF-8, from the locale environment variables.
+   * `LC_ALL` takes precedence over `LC_CTYPE`, which takes precedence over `LANG`.
+   * Windows Terminal always does, the Windows console does not.
+   *
+   * @param env - The environment variables, e.g. process.env.
+   * @param platform - The operating system, e.g. process.platform.
+   * @returns True if the terminal can show any Unicode character, false if only ASCII is safe.
+   */
+  static isUtf8(env: Record<string, string | undefined> = process.env, platform: string = process.platform): boolean
+  {
+    if (platform === 'win32')
+    {
+      return env.WT_SESSION !== undefined
+    }
+
+    const locale = [env.LC_ALL, env.LC_CTYPE, env.LANG].find((value) => value !== undefined && value !== '') ?? ''
+
+    return /utf-?8/i.test(locale)
+  }
+}
@@ -0,0 +1,114 @@
+import type { ColorMode, IBoardConfig, IGameState, ITheme, IThemeStyle, ThemeElement } from '@type/global'
+import type { RenderCell } from '@renderers/Renderer'
+import { RenderService } from '@services/RenderService'
+import { ANSI_RESET, ColorSupport } from '@renderers/ColorSupport'
+import { Themes } from '@renderers/Themes'
+import { BONUS_BACKGROUND_ICON } from '@powerups/PowerUpStrategies'
+import { SystemClock, type IClock } from '@utils/Clock'
+import { TextUtils } from '@utils/TextUtils'
+import { DEFAULT_CONFIG } from '@config/defaults'
+
+/**
+ * ThemedRenderer draws the game on a terminal with the glyphs and colors of a theme,
+ * in truecolor or with the 256-color palette depending on what the terminal supports.
+ * The configured icons are only used to tell when the bonus power-up flashes the background.
+ */
+export class ThemedRenderer extends RenderService
+{
+  private theme: ITheme
+  private colorMode: ColorMode
+
+  constructor(board: IBoardConfig = DEFAULT_CONFIG.board, theme: ITheme = Themes.get('classic'), colorMode: ColorMode = ColorSupport.detect(), clock: IClock = new SystemClock(), output: NodeJS.WritableStream = process.stdout)
+  {
+    super(board, DEFAULT_CONFIG.icons, clock, output)
+
+    this.theme = theme
+    this.colorMode = colorMode
+    this.labels = { score: 'Score', length: 'Length', autopilot: 'AUTO' }
+  }
+
+  protected override getCellWidth(): number
+  {
+    const glyphs = Object.entries(this.theme.styles)
+      .filter(([element]) => element !== 'hud')
+      .map(([, style]) => TextUtils.width(style.glyph))
+
+    return Math.max(1, ...glyphs)
+  }
+
+  protected override drawCell(cell: RenderCell, gameState: IGameState): string
+  {
+    return this.paint(this.theme.styles[this.getElement(cell, gameState)])
+  }
+
+  protected override drawBorder(): string
+  {
+    return this.paint(this.theme.styles.border)
+  }
+
+  protected override styleHud(hud: string): string
+  {
+    return hud
+      .split('\n')
+      .map((line) => line === '' ? line : this.paint({ ...this.theme.styles.hud, glyph: line }))
+      .join('\n')
+  }
+
+  protected override buildScreen(lines: string[]): string
+  {
+    return this.styleHud(super.buildScreen(lines))
+  }
+
+  /**
+   * Determines the theme element a cell is drawn as.
+   *
+   * @param cell - What the cell holds.
+   * @param gameState - The current state of the game.
+   * @returns The element of the theme.
+   */
+  private getElement(cell: RenderCell, gameState: IGameState): ThemeElement
+  {
+    switch (cell.kind)
+    {
+      case 'apple':
+        return 'apple'
+      case 'powerUp':
+        return cell.type
+      case 'wall':
+        return 'wall'
+      case 'background':
+        return this.icons.background === BONUS_BACKGROUND_ICON ? 'bonusBackground' : 'background'
+      case 'snake':
+      {
+        const head = cell.segment === 0
+
+        if (this.getPlayers(gameState)[cell.player]?.rival)
+        {
+          return head ? 'rivalHead' : 'rivalBody'
+        }
+
+        if (cell.player === 0)
+        {
+          return head ? 'snakeHead' : 'snakeBody'
+        }
+
+        return head ? 'snakeTwoHead' : 'snakeTwoBody'
+      }
+    }
+  }
+
+  /**
+   * Wraps a glyph in the escape sequences of its colors.
+   *
+   * @param style - The glyph and its colors.
+   * @returns The colored glyph, or the bare glyph without color support.
+   */
+  private paint(style: IThemeStyle): string
+  {
+    const colors =
+      (style.fg ? ColorSupport.foreground(style.fg, this.colorMode) : '') +
+      (style.bg ? ColorSupport.background(style.bg, this.colorMode) : '')
+
+    return colors === '' ? style.glyph : `${colors}${style.glyph}${ANSI_RESET}`
+  }
+}
@@ -0,0 +1,202 @@
+import type { ITheme, IThemeStyle, ThemeElement } from '@type/global'
+import { ColorSupport } from '@renderers/ColorSupport'
+
+/**
+ * Error raised for themes that cannot be used, e.g. an unknown name or a malformed color.
+ */
+export class ThemeError extends Error
+{
+  constructor(message: string)
+  {
+    super(message)
+
+    this.name = 'ThemeError'
+  }
+}
+
+/**
+ * Built-in themes, by name. Glyphs are two columns wide, like the emoji icons.
+ */
+const THEMES: Record<string, ITheme> =
+{
+  classic:
+  {
+    name: 'classic',
+    styles:
+    {
+      background: { glyph: '  ', bg: '#1c1c1c' },
+      bonusBackground: { glyph: '  ', bg: '#1f3f7f' },
+      border: { glyph: '  ', bg: '#5f3f1f' },
+      wall: { glyph: '▓▓', fg: '#a0a0a0', bg: '#3a3a3a' },
+      snakeHead: { glyph: '██', fg: '#87ff5f' },
+      snakeBody: { glyph: '▒▒', fg: '#00af00', bg: '#1c1c1c' },
+      snakeTwoHead: { glyph: '██', fg: '#ffaf00' },
+      snakeTwoBody: { glyph: '▒▒', fg: '#d75f00', bg: '#1c1c1c' },
+      rivalHead: { glyph: '██', fg: '#d787ff' },
+      rivalBody: { glyph: '░░', fg: '#875faf', bg: '#1c1c1c' },
+      apple: { glyph: '()', fg: '#ff3f3f', bg: '#1c1c1c' },
+      magnet: { glyph: 'Mg', fg: '#ff5f87', bg: '#1c1c1c' },
+      slowMotion: { glyph: 'Sl', fg: '#5fd7ff', bg: '#1c1c1c' },
+      bonus: { glyph: '$$', fg: '#ffd700', bg: '#1c1c1c' },
+      invincibility: { glyph: 'In', fg: '#e4e4e4', bg: '#1c1c1c' },
+      teleport: { glyph: '<>', fg: '#af5fff', bg: '#1c1c1c' },
+      boost: { glyph: '>>', fg: '#ffff5f', bg: '#1c1c1c' },
+      freeze: { glyph: '**', fg: '#afffff', bg: '#1c1c1c' },
+      hud: { glyph: '', fg: '#d0d0d0' },
+    },
+  },
+  ocean:
+  {
+    name: 'ocean',
+    styles:
+    {
+      background: { glyph: '~ ', fg: '#1f5f8f', bg: '#003f6f' },
+      bonusBackground: { glyph: '~ ', fg: '#5fafdf', bg: '#1f7faf' },
+      border: { glyph: '  ', bg: '#d7c38f' },
+      wall: { glyph: '▓▓', fg: '#5f7f7f', bg: '#2f4f4f' },
+      snakeHead: { glyph: '██', fg: '#5fffd7' },
+      snakeBody: { glyph: '▒▒', fg: '#00af87', bg: '#003f6f' },
+      snakeTwoHead: { glyph: '██', fg: '#ff87af' },
+      snakeTwoBody: { glyph: '▒▒', fg: '#d75f87', bg: '#003f6f' },
+      rivalHead: { glyph: '██', fg: '#ffaf5f' },
+      rivalBody: { glyph: '░░', fg: '#d7875f', bg: '#003f6f' },
+      apple: { glyph: '()', fg: '#ff5f5f', bg: '#003f6f' },
+      magnet: { glyph: 'Mg', fg: '#ff87d7', bg: '#003f6f' },
+      slowMotion: { glyph: 'Sl', fg: '#d7ffff', bg: '#003f6f' },
+      bonus: { glyph: '$$', fg: '#ffd75f', bg: '#003f6f' },
+      invincibility: { glyph: 'In', fg: '#ffffff', bg: '#003f6f' },
+      teleport: { glyph: '<>', fg: '#d7afff', bg: '#003f6f' },
+      boost: { glyph: '>>', fg: '#ffff87', bg: '#003f6f' },
+      freeze: { glyph: '**', fg: '#ffffff', bg: '#003f6f' },
+      hud: { glyph: '', fg: '#87d7ff' },
+    },
+  },
+  retro:
+  {
+    name: 'retro',
+    styles:
+    {
+      background: { glyph: '  ', bg: '#0f1f0f' },
+      bonusBackground: { glyph: '  ', bg: '#1f3f1f' },
+      border: { glyph: '##', fg: '#33ff33', bg: '#0f1f0f' },
+      wall: { glyph: '##', fg: '#1f9f1f', bg: '#0f1f0f' },
+      snakeHead: { glyph: '[]', fg: '#66ff66', bg: '#0f1f0f' },
+      snakeBody: { glyph: '[]', fg: '#33cc33', bg: '#0f1f0f' },
+      snakeTwoHead: { glyph: '{}', fg: '#66ff66', bg: '#0f1f0f' },
+      snakeTwoBody: { glyph: '{}', fg: '#33cc33', bg: '#0f1f0f' },
+      rivalHead: { glyph: '<>', fg: '#66ff66', bg: '#0f1f0f' },
+      rivalBody: { glyph: '<>', fg: '#1f9f1f', bg: '#0f1f0f' },
+      apple: { glyph: '()', fg: '#99ff99', bg: '#0f1f0f' },
+      magnet: { glyph: 'Mg', fg: '#99ff99', bg: '#0f1f0f' },
+      slowMotion: { glyph: 'Sl', fg: '#99ff99', bg: '#0f1f0f' },
+      bonus: { glyph: '$$', fg: '#99ff99', bg: '#0f1f0f' },
+      invincibility: { glyph: 'In', fg: '#99ff99', bg: '#0f1f0f' },
+      teleport: { glyph: '%%', fg: '#99ff99', bg: '#0f1f0f' },
+      boost: { glyph: '>>', fg: '#99ff99', bg: '#0f1f0f' },
+      freeze: { glyph: '**', fg: '#99ff99', bg: '#0f1f0f' },
+      hud: { glyph: '', fg: '#33ff33' },
+    },
+  },
+  monochrome:
+  {
+    name: 'monochrome',
+    styles:
+    {
+      background: { glyph: '  ', bg: '#000000' },
+      bonusBackground: { glyph: '  ', bg: '#303030' },
+      border: { glyph: '  ', bg: '#808080' },
+      wall: { glyph: '▓▓', fg: '#a8a8a8', bg: '#000000' },
+      snakeHead: { glyph: '██', fg: '#ffffff' },
+      snakeBody: { glyph: '▓▓', fg: '#d0d0d0', bg: '#000000' },
+      snakeTwoHead: { glyph: '██', fg: '#b2b2b2' },
+      snakeTwoBody: { glyph: '▒▒', fg: '#b2b2b2', bg: '#000000' },
+      rivalHead: { glyph: '██', fg: '#8a8a8a' },
+      rivalBody: { glyph: '░░', fg: '#8a8a8a', bg: '#000000' },
+      apple: { glyph: '()', fg: '#ffffff', bg: '#000000' },
+      magnet: { glyph: 'Mg', fg: '#ffffff', bg: '#000000' },
+      slowMotion: { glyph: 'Sl', fg: '#ffffff', bg: '#000000' },
+      bonus: { glyph: '$$', fg: '#ffffff', bg: '#000000' },
+      invincibility: { glyph: 'In', fg: '#ffffff', bg: '#000000' },
+      teleport: { glyph: '<>', fg: '#ffffff', bg: '#000000' },
+      boost: { glyph: '>>', fg: '#ffffff', bg: '#000000' },
+      freeze: { glyph: '**', fg: '#ffffff', bg: '#000000' },
+      hud: { glyph: '', fg: '#e4e4e4' },
+    },
+  },
+}
+
+/**
+ * Themes gives the built-in color themes and checks custom ones.
+ *
+ * A theme styles each kind of cell with a glyph, two columns wide, and optional
+ * text and background colors written as `#rrggbb`. The `hud` style only sets the
+ * color of the status lines, its glyph is unused.
+ */
+export class Themes
+{
+  /**
+   * Returns a built-in theme.
+   *
+   * @param name - The name of the theme.
+   * @returns A copy of the theme.
+   * @throws ThemeError if no built-in theme has this name.
+   */
+  static get(name: string): ITheme
+  {
+    const theme = THEMES[name]
+
+    if (!theme)
+    {
+      throw new ThemeError(`Unknown theme "${name}", expected one of ${this.getAvailableThemes().join(', ')}`)
+    }
+
+    return JSON.parse(JSON.stringify(theme))
+  }
+
+  /**
+   * Returns the names of the built-in themes.
+   *
+   * @returns An array of theme names.
+   */
+  static getAvailableThemes(): string[]
+  {
+    return Object.keys(THEMES)
+  }
+
+  /**
+   * Returns every element a theme styles.
+   *
+   * @returns The elements.
+   */
+  static getElements(): ThemeElement[]
+  {
+    return Object.keys(THEMES.classic!.styles) as ThemeElement[]
+  }
+
+  /**
+   * Checks that a theme styles every element with a glyph and valid colors.
+   *
+   * @param theme - The theme to check.
+   * @throws ThemeError describing the first problem found.
+   */
+  static validate(theme: ITheme): void
+  {
+    this.getElements().forEach((element) =>
+    {
+      const style: IThemeStyle | undefined = theme.styles?.[element]
+
+      if (!style || typeof style.glyph !== 'string')
+      {
+        throw new ThemeError(`Theme "${theme.name}" has no glyph for ${element}`)
+      }
+
+      [style.fg, style.bg].forEach((color) =>
+      {
+        if (color !== undefined && !ColorSupport.isColor(color))
+        {
+          throw new ThemeError(`Theme "${theme.name}" has an invalid color for ${element}: ${JSON.stringify(color)}, expected #rrggbb`)
+        }
+      })
+    })
+  }
+}
@@ -1,4 +1,20 @@
 import type { IPowerUpContext } from '@powerups/PowerUp'
+import type { CheatResult } from '@type/global'
+
+/**
+ * Active cheats and the values they replaced, stored in save games.
+ */
+export interface ICheatSnapshot
+{
+  active: string[]
+  originals:
+  {
+    updateTime?: number
+    scorePerApple?: number
+    backgroundIcon?: string
+    range?: string
+  }
+}
 
 interface ToggleCheat
 {
@@ -14,13 +30,7 @@ export class CheatService
   private readonly cheats: Record<string, ToggleCheat>
   private active: Set<string> = new Set()
 
-  private originals:
-  {
-    updateTime?: number
-    scorePerApple?: number
-    backgroundIcon?: string
-    range?: string
-  } = {}
+  private originals: ICheatSnapshot['originals'] = {}
 
   constructor()
   {
@@ -175,7 +185,25 @@ export class CheatService
     return Object.keys(this.cheats)
   }
 
-  execute(code: string, ctx: IPowerUpContext): 'activated' | 'deactivated' | 'instant' | 'unknown'
+  /**
+   * Returns the active cheats and the values they replaced.
+   */
+  getSnapshot(): ICheatSnapshot
+  {
+    return { active: Array.from(this.active), originals: { ...this.originals } }
+  }
+
+  /**
+   * Restores the active cheats without applying them again;
+   * their effects are expected to be part of the restored game.
+   */
+  restoreSnapshot(snapshot: ICheatSnapshot): void
+  {
+    this.active = new Set(snapshot.active)
+    this.originals = { ...snapshot.originals }
+  }
+
+  execute(code: string, ctx: IPowerUpContext): CheatResult
   {
     const cheat = this.cheats[this.normalize(code)]
     if (!cheat) return 'unknown'
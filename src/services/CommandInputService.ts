@@ -0,0 +1,286 @@
+import { Movement, type CheatResult, type Direction, type IGameEvents, type ScriptCommand } from '@type/global'
+import type { IClock, TimerHandle } from '@utils/Clock'
+import type { EventListener } from '@utils/EventEmitter'
+import { MOVEMENT_DIRECTIONS } from '@config/defaults'
+import type { Readable } from 'stream'
+
+/**
+ * The parts of the game a command script can drive.
+ */
+export interface ICommandTarget
+{
+  setDirection(direction: Direction, player?: number): void
+  togglePause(): void
+  executeCheat(code: string): CheatResult
+  restart(): void
+  toggleAutopilot(): void
+  stop(): void
+
+  isHeadless(): boolean
+  getUpdateTime(): number
+  getClock(): IClock
+
+  on<K extends keyof IGameEvents>(event: K, listener: EventListener<IGameEvents[K]>): () => void
+}
+
+/**
+ * Movement of each direction command, by name and initial.
+ */
+const DIRECTION_COMMANDS: Record<string, Movement> =
+{
+  U: Movement.Up,
+  UP: Movement.Up,
+  D: Movement.Down,
+  DOWN: Movement.Down,
+  L: Movement.Left,
+  LEFT: Movement.Left,
+  R: Movement.Right,
+  RIGHT: Movement.Right
+}
+
+/**
+ * CommandInputService drives a game from a stream of text commands instead of the keyboard,
+ * e.g. a file or a pipe, so games can be played by shell scripts and end-to-end tests.
+ *
+ * Commands are read one per line, case-insensitive. Blank lines, lines starting
+ * with `#` and unknown commands are ignored.
+ *
+ * - `U`, `D`, `L`, `R` or `UP`, `DOWN`, `LEFT`, `RIGHT`: turns player one's snake,
+ *   or another player's with its number, e.g. `L 2`.
+ * - `WAIT n`: lets n ticks pass before the next command, 1 if not set.
+ * - `PAUSE`: pauses or resumes the game. Ticks keep being counted for `WAIT` while paused.
+ * - `CHEAT code`: enters a cheat code, if cheats are allowed.
+ * - `RESTART`: restarts the game.
+ * - `AUTOPILOT`: engages or disengages the autopilot.
+ * - `QUIT`: stops the game.
+ *
+ * Commands up to the next `WAIT` are applied as soon as they are read, or at the
+ * start of the tick the `WAIT` ends on.
+ */
+export class CommandInputService
+{
+  private target: ICommandTarget
+  private allowCheats: boolean
+  private commands: ScriptCommand[] = []
+  private buffer: string = ''
+  private ticks: number = 0
+  private resumeAt: number = 0
+  private pauseTimer: TimerHandle | null = null
+  private input: Readable | null = null
+  private dataListener: ((chunk: Buffer | string) => void) | null = null
+  private unsubscribers: (() => void)[]
+
+  constructor(target: ICommandTarget, allowCheats: boolean = false)
+  {
+    this.target = target
+    this.allowCheats = allowCheats
+
+    this.unsubscribers =
+    [
+      target.on('tickStarted', () => this.onTick()),
+      target.on('paused', () => this.startPauseTimer()),
+      target.on('resumed', () => this.stopPauseTimer())
+    ]
+  }
+
+  /**
+   * Parses one line of a command script.
+   *
+   * @param line - The line to parse.
+   * @returns The command, or null if the line is blank, a comment or unknown.
+   */
+  static parse(line: string): ScriptCommand | null
+  {
+    const [name, ...args] = line.trim().split(/\s+/)
+    const command = name?.toUpperCase() ?? ''
+    const argument = args.join(' ')
+
+    if (command === '' || command.startsWith('#'))
+    {
+      return null
+    }
+
+    const movement = DIRECTION_COMMANDS[command]
+
+    if (movement)
+    {
+      const player = argument === '' ? 1 : Number(argument)
+
+      return Number.isInteger(player) && player >= 1
+        ? { type: 'direction', direction: MOVEMENT_DIRECTIONS[movement], player: player - 1 }
+        : null
+    }
+
+    switch (command)
+    {
+      case 'WAIT':
+      {
+        const ticks = argument === '' ? 1 : Number(argument)
+
+        return Number.isInteger(ticks) && ticks >= 0 ? { type: 'wait', ticks } : null
+      }
+      case 'CHEAT':
+        return argument === '' ? null : { type: 'cheat', code: argument.toUpperCase() }
+      case 'PAUSE':
+        return { type: 'pause' }
+      case 'RESTART':
+        return { type: 'restart' }
+      case 'AUTOPILOT':
+        return { type: 'autopilot' }
+      case 'QUIT':
+        return { type: 'quit' }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Adds commands to run, e.g. the content of a script file.
+   * Only complete lines are read, a trailing partial line waits for the rest of it.
+   *
+   * @param text - The lines of commands.
+   */
+  feed(text: string): void
+  {
+    const lines = (this.buffer + text).split('\n')
+
+    this.buffer = lines.pop() ?? ''
+
+    lines.forEach((line) =>
+    {
+      const command = CommandInputService.parse(line)
+
+      if (command)
+      {
+        this.commands.push(command)
+      }
+    })
+
+    this.run()
+  }
+
+  /**
+   * Reads commands from a stream, e.g. a pipe on the standard input.
+   * The last line is read when the stream ends, even without a trailing newline.
+   *
+   * @param input - The stream to read from.
+   */
+  listen(input: Readable): void
+  {
+    this.input = input
+    this.dataListener = (chunk) => this.feed(chunk.toString())
+
+    input.on('data', this.dataListener)
+    input.once('end', () => this.feed('\n'))
+  }
+
+  /**
+   * Checks if some commands have not been run yet.
+   *
+   * @returns True if commands are waiting, false otherwise.
+   */
+  hasPendingCommands(): boolean
+  {
+    return this.commands.length > 0
+  }
+
+  /**
+   * Stops reading commands and listening to the game.
+   */
+  destroy(): void
+  {
+    if (this.input && this.dataListener)
+    {
+      this.input.off('data', this.dataListener)
+      this.input.pause()
+    }
+
+    this.stopPauseTimer()
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+
+    this.input = null
+    this.dataListener = null
+    this.commands = []
+  }
+
+  /**
+   * Runs the commands due at the start of a tick, then counts the tick.
+   */
+  private onTick(): void
+  {
+    this.run()
+    this.ticks++
+  }
+
+  /**
+   * Runs commands until a wait is in progress or none is left.
+   */
+  private run(): void
+  {
+    while (this.ticks >= this.resumeAt && this.commands.length > 0)
+    {
+      this.execute(this.commands.shift()!)
+    }
+  }
+
+  /**
+   * Runs one command on the game.
+   *
+   * @param command - The command to run.
+   */
+  private execute(command: ScriptCommand): void
+  {
+    switch (command.type)
+    {
+      case 'direction':
+        this.target.setDirection(command.direction, command.player)
+        break
+      case 'wait':
+        this.resumeAt = this.ticks + command.ticks
+        break
+      case 'cheat':
+        if (this.allowCheats)
+        {
+          this.target.executeCheat(command.code)
+        }
+        break
+      case 'pause':
+        this.target.togglePause()
+        break
+      case 'restart':
+        this.target.restart()
+        break
+      case 'autopilot':
+        this.target.toggleAutopilot()
+        break
+      case 'quit':
+        this.destroy()
+        this.target.stop()
+        break
+    }
+  }
+
+  /**
+   * Keeps counting ticks while a real-time game is paused, since its game loop stops.
+   * Headless games still start ticks while paused, so they need no timer.
+   */
+  private startPauseTimer(): void
+  {
+    if (this.pauseTimer === null && !this.target.isHeadless())
+    {
+      this.pauseTimer = this.target.getClock().setInterval(() => this.onTick(), this.target.getUpdateTime())
+    }
+  }
+
+  /**
+   * Stops counting ticks on the pause timer.
+   */
+  private stopPauseTimer(): void
+  {
+    if (this.pauseTimer !== null)
+    {
+      this.target.getClock().clearInterval(this.pauseTimer)
+      this.pauseTimer = null
+    }
+  }
+}
@@ -1,4 +1,5 @@
-import type { IActivePowerUp, IGameState, IPowerUp, Position, PowerUpType } from '@type/global'
+import type { IActivePowerUp, IGameState, IPlayerState, IPowerUp, Position, PowerUpType } from '@type/global'
+import { SystemClock, type IClock } from '@utils/Clock'
 
 /**
  * GameStateService manages the state of the game, including
@@ -10,10 +11,12 @@ import type { IActivePowerUp, IGameState, IPowerUp, Position, PowerUpType } from
 export class GameStateService
 {
   private state: IGameState
+  private clock: IClock
 
-  constructor(initialState: IGameState)
+  constructor(initialState: IGameState, clock: IClock = new SystemClock())
   {
     this.state = { ...initialState }
+    this.clock = clock
   }
 
   /**
@@ -71,6 +74,36 @@ export class GameStateService
     this.state.score += points
   }
 
+  /**
+   * Updates the snakes and scores of every player in the game state.
+   *
+   * @param players - The state of each player, player one first.
+   */
+  updatePlayers(players: IPlayerState[]): void
+  {
+    this.state.players = players.map((player) => ({ ...player, snake: [...player.snake] }))
+  }
+
+  /**
+   * Sets the outcome of a game with several players.
+   *
+   * @param winner - The index of the winning player, null for a draw, undefined to clear it.
+   */
+  setWinner(winner: number | null | undefined): void
+  {
+    this.state.winner = winner
+  }
+
+  /**
+   * Sets whether player one's snake is steered by the autopilot.
+   *
+   * @param enabled - If true, the autopilot is shown as engaged.
+   */
+  setAutopilot(enabled: boolean): void
+  {
+    this.state.autopilot = enabled
+  }
+
   /**
    * Updates the power-ups in the game state.
    * This method replaces the current list of power-ups with a new one.
@@ -106,7 +139,7 @@ export class GameStateService
 
     this.state.activePowerUps.push({
       type: powerUpType,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
       duration: duration
     })
   }
@@ -187,6 +220,7 @@ export class GameStateService
       isGameOver: false,
       isPaused: false,
       activePowerUps: [],
+      players: [],
       ...initialState,
     }
   }
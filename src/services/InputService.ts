@@ -1,4 +1,5 @@
 import { Movement, type Direction } from '@type/global'
+import { DEFAULT_CONFIG, MOVEMENT_DIRECTIONS } from '@config/defaults'
 import * as readline from 'readline'
 
 /**
@@ -12,22 +13,21 @@ export class InputService
   private keyHandlers: Map<string, () => void> = new Map()
   private isInitialized = false
   private charHandlers: Set<(ch: string) => void> = new Set()
+  private keypressListener: ((_: string, key: readline.Key) => void) | null = null
 
   /**
    * Initializes the input service.
+   * Keys are only read from a terminal: when the standard input is a file or a pipe,
+   * its content is not made of key presses and is left to a CommandInputService.
    */
   initialize(): void
   {
-    if (this.isInitialized) return
+    if (this.isInitialized || !process.stdin.isTTY) return
 
     readline.emitKeypressEvents(process.stdin)
+    process.stdin.setRawMode(true)
 
-    if (process.stdin.isTTY)
-    {
-      process.stdin.setRawMode(true)
-    }
-
-    process.stdin.on('keypress', (_, key) =>
+    this.keypressListener = (_, key) =>
     {
       if (key && key.name)
       {
@@ -46,7 +46,9 @@ export class InputService
         const ch = key.sequence
         this.charHandlers.forEach((fn) => fn(ch))
       }
-    })
+    }
+
+    process.stdin.on('keypress', this.keypressListener)
 
     this.isInitialized = true
   }
@@ -62,6 +64,17 @@ export class InputService
     this.keyHandlers.set(key, handler)
   }
 
+  /**
+   * Registers the same key press handler for several keys.
+   *
+   * @param keys - The keys to listen for.
+   * @param handler - The function to call when one of the keys is pressed.
+   */
+  onKeysPress(keys: string[], handler: () => void): void
+  {
+    keys.forEach((key) => this.onKeyPress(key, handler))
+  }
+
   /**
    * Registers handlers for movement keys.
    *
@@ -69,20 +82,15 @@ export class InputService
    * It allows for easy control of the game character's movement.
    *
    * @param onDirectionChange - Callback function to handle direction changes.
+   * @param keys - The keys of each movement, player one's default keys by default.
    */
-  onMovement(onDirectionChange: (direction: Direction) => void): void
+  onMovement(onDirectionChange: (direction: Direction) => void, keys: Record<Movement, string[]> = DEFAULT_CONFIG.keyBindings): void
   {
-    const movements: Record<Movement, Direction> =
+    Object.values(Movement).forEach((movement) =>
     {
-      [Movement.Up]: [0, -1],
-      [Movement.Down]: [0, 1],
-      [Movement.Left]: [-1, 0],
-      [Movement.Right]: [1, 0],
-    }
+      const direction = MOVEMENT_DIRECTIONS[movement]
 
-    Object.entries(movements).forEach(([key, direction]) =>
-    {
-      this.onKeyPress(key, () => onDirectionChange(direction))
+      this.onKeysPress(keys[movement], () => onDirectionChange(direction))
     })
   }
 
@@ -118,6 +126,12 @@ export class InputService
       process.stdin.setRawMode(false)
     }
 
+    if (this.keypressListener)
+    {
+      process.stdin.off('keypress', this.keypressListener)
+      this.keypressListener = null
+    }
+
     this.clearHandlers()
     this.charHandlers.clear()
     this.isInitialized = false
@@ -1,53 +1,135 @@
-import type { IActivePowerUp, IBoardConfig, IGameState, IIconsConfig, Position } from '@type/global'
+import type { IActivePowerUp, IBoardConfig, IGameState, IIconsConfig, IPlayerState, Position } from '@type/global'
+import type { IRenderer, RenderCell } from '@renderers/Renderer'
+import { SystemClock, type IClock } from '@utils/Clock'
+import { BoardUtils } from '@utils/BoardUtils'
+import { TextUtils } from '@utils/TextUtils'
+import { SnakeSprites } from '@renderers/SnakeSprites'
+import { DEFAULT_CONFIG } from '@config/defaults'
+import type { WriteStream } from 'tty'
 
 /**
- * RenderService is responsible for rendering the game state to the console.
+ * Rows the status lines below the board can take, with the line the cursor ends on.
+ */
+const HUD_ROWS = 7
+
+/**
+ * Smallest width and height of a board sized to the terminal.
+ */
+const MIN_BOARD_SIZE = 5
+
+/**
+ * Labels of the score, the length and the autopilot in the status line.
+ */
+export interface IHudLabels
+{
+  score: string
+  length: string
+  autopilot: string
+}
+
+/**
+ * Characters of a border drawn as a box around the board, one column wide each.
+ */
+export interface IBoxGlyphs
+{
+  horizontal: string
+  vertical: string
+  topLeft: string
+  topRight: string
+  bottomLeft: string
+  bottomRight: string
+}
+
+/**
+ * RenderService is the default renderer: it draws the game with emoji on a terminal.
  * It handles the drawing of the game board, UI elements, and updates based on the game state.
  * It can also update icons and board configurations dynamically.
- * Uses frame buffering to reduce flicker/parpadeo.
+ * Keeps the cells of the previous frame and only rewrites the cells and status lines
+ * that changed, which reduces flicker/parpadeo and the output sent to slow terminals.
+ * Follows the size of the terminal: the frame is redrawn when the terminal is resized,
+ * and replaced by a notice while the terminal is too small to hold it.
  */
-export class RenderService
+export class RenderService implements IRenderer
 {
-  private board: IBoardConfig
-  private icons: IIconsConfig
-  private previousFrame: string = ''
+  protected board: IBoardConfig
+  protected icons: IIconsConfig
+  protected clock: IClock
+  protected output: NodeJS.WritableStream
+  protected labels: IHudLabels = { score: '🏆', length: '📏', autopilot: '🤖' }
+  protected boxGlyphs: IBoxGlyphs | null = null
+  private previousCells: string[][] = []
+  private previousHud: string = ''
   private isFirstRender: boolean = true
   private overlayMessage: string = ''
-
-  constructor(board: IBoardConfig, icons: IIconsConfig)
+  private obstacles: Set<string> = new Set()
+  private iconWidth: number = 2
+  private fits: boolean = true
+  private lastState: IGameState | null = null
+  private fitListeners: ((fits: boolean) => void)[] = []
+  private resizeListener: (() => void) | null = null
+
+  constructor(board: IBoardConfig = DEFAULT_CONFIG.board, icons: IIconsConfig = DEFAULT_CONFIG.icons, clock: IClock = new SystemClock(), output: NodeJS.WritableStream = process.stdout)
   {
-    this.board = board
     this.icons = icons
+    this.iconWidth = this.measureIcons(icons)
+    this.clock = clock
+    this.output = output
+    this.board = board
+    this.updateBoard(board)
   }
 
   /**
-   * Renders the entire game state to the console.
-   * It clears the screen only on first render, then moves the cursor to the home position.
-   * Only writes to the console if the frame has changed, reducing flicker.
+   * Renders the game state to the console.
+   * The whole frame is drawn on first render, or when the board changed size. Afterwards
+   * only the cells that differ from the previous frame are rewritten, each one after moving
+   * the cursor to its column, and the status lines are rewritten only when they change.
    *
    * @param gameState - The current state of the game to render.
    */
   render(gameState: IGameState): void
   {
-    const currentFrame = this.buildFrame(gameState)
+    this.lastState = gameState
+    this.listenToResize()
 
-    if (this.isFirstRender || currentFrame !== this.previousFrame)
+    if (!this.updateFit())
     {
       if (this.isFirstRender)
       {
-        this.clearScreen()
+        this.drawTooSmallNotice()
         this.isFirstRender = false
       }
 
-      else
+      return
+    }
+
+    const cells = this.buildCells(gameState)
+    const hud = this.styleHud(this.buildUI(gameState))
+
+    if (this.isFirstRender || !this.hasSameShape(cells))
+    {
+      this.clearScreen()
+      this.write(cells.map((row) => row.join('') + '\n').join('') + hud)
+
+      this.isFirstRender = false
+    }
+
+    else
+    {
+      let output = this.buildCellUpdates(cells)
+
+      if (hud !== this.previousHud)
       {
-        process.stdout.write('\x1b[H')
+        output += `\x1b[${cells.length + 1};1H\x1b[J${hud}`
       }
 
-      process.stdout.write(currentFrame)
-
-      this.previousFrame = currentFrame
+      if (output !== '')
+      {
+        this.write(output)
+      }
     }
+
+    this.previousCells = cells
+    this.previousHud = hud
   }
 
   /**
@@ -58,12 +140,24 @@ export class RenderService
    */
   forceRender(gameState: IGameState): void
   {
-    this.previousFrame = ''
-    this.clearScreen()
     this.isFirstRender = true
     this.render(gameState)
   }
 
+  /**
+   * Renders a full-screen message instead of the board, e.g. an intermission between levels.
+   * The next call to render() redraws the whole frame.
+   *
+   * @param lines - The lines of the message, each centered on the board width.
+   */
+  renderScreen(lines: string[]): void
+  {
+    this.clearScreen()
+    this.write(this.buildScreen(lines))
+
+    this.isFirstRender = true
+  }
+
   /**
    * Updates the icons used for rendering the game.
    * It merges the new icons with the existing ones.
@@ -73,6 +167,7 @@ export class RenderService
   updateIcons(icons: IIconsConfig): void
   {
     this.icons = { ...this.icons, ...icons }
+    this.iconWidth = this.measureIcons(this.icons)
   }
 
   /**
@@ -84,23 +179,103 @@ export class RenderService
   updateBoard(board: IBoardConfig): void
   {
     this.board = board
+    this.obstacles = new Set((board.obstacles ?? []).map((position) => BoardUtils.toKey(position)))
+  }
+
+  /**
+   * Sizes a board to fill the terminal, leaving room for the status lines.
+   *
+   * @param board - The board configuration.
+   * @returns The board with the largest width and height that fit, or the board as configured without a terminal.
+   */
+  fitBoard(board: IBoardConfig): IBoardConfig
+  {
+    const fitted: IBoardConfig = { ...board }
+    const terminal = this.getTerminalSize()
+
+    delete fitted.size
+
+    if (!terminal)
+    {
+      return fitted
+    }
+
+    const borderCells = board.edges === 'walls' ? 2 : 0
+
+    fitted.width = Math.max(MIN_BOARD_SIZE, Math.floor(terminal.columns / this.getCellWidth()) - borderCells)
+    fitted.height = Math.max(MIN_BOARD_SIZE, terminal.rows - HUD_ROWS - borderCells)
+
+    return fitted
+  }
+
+  /**
+   * Registers a listener called when the frame stops or starts fitting in the terminal.
+   *
+   * @param listener - Called with true when the frame fits again, false when it no longer does.
+   */
+  onFitChange(listener: (fits: boolean) => void): void
+  {
+    this.fitListeners.push(listener)
+  }
+
+  /**
+   * Stops following the size of the terminal.
+   */
+  dispose(): void
+  {
+    if (this.resizeListener)
+    {
+      this.output.off('resize', this.resizeListener)
+      this.resizeListener = null
+    }
+
+    this.fitListeners = []
   }
 
   /**
    * Sets a temporary overlay message to be displayed in the UI area.
+   *
+   * @param message - The message to show, or an empty string to clear it.
    */
   setOverlayMessage(message: string): void
   {
     this.overlayMessage = message
   }
 
+  /**
+   * Writes text to the output.
+   *
+   * @param text - The text to write.
+   */
+  protected write(text: string): void
+  {
+    this.output.write(text)
+  }
+
   /**
    * Clears the console screen.
    * This is useful for refreshing the display without cluttering the output.
    */
-  private clearScreen(): void
+  protected clearScreen(): void
+  {
+    this.write('\x1b[H\x1b[2J')
+  }
+
+  /**
+   * Builds a full-screen message, each line centered on the board width.
+   *
+   * @param lines - The lines of the message.
+   * @returns The screen as a string.
+   */
+  protected buildScreen(lines: string[]): string
   {
-    process.stdout.write('\x1b[H\x1b[2J')
+    const boardWidth = this.getFrameWidth()
+
+    const screen = lines
+      .map((line) => TextUtils.center(line, boardWidth))
+      .join('\n')
+
+    return `\n${screen}\n`
   }
 
   /**
@@ -110,59 +285,272 @@ export class RenderService
    * @param gameState - The current state of the game to render.
    * @returns Complete frame as a string.
    */
-  private buildFrame(gameState: IGameState): string
+  protected buildFrame(gameState: IGameState): string
   {
     let frame = ''
 
     frame += this.buildBoard(gameState)
-    frame += this.buildUI(gameState)
+    frame += this.styleHud(this.buildUI(gameState))
 
     return frame
   }
 
   /**
    * Builds the game board as a string based on the current game state.
-   * It iterates through each position on the board and determines what to render (apple, snake, power-ups, etc.).
    *
    * @param gameState - The current state of the game to render.
    * @returns The board as a string.
    */
   private buildBoard(gameState: IGameState): string
   {
-    let boardString = ''
+    return this.buildCells(gameState).map((row) => row.join('') + '\n').join('')
+  }
+
+  /**
+   * Builds the rows of drawn cells of the board based on the current game state.
+   * It iterates through each position on the board and determines what to render (apple, snake, power-ups, etc.).
+   * On a walled board the cells are surrounded by a border.
+   * Cells drawn narrower than the widest icon are padded with spaces, so the rows stay aligned.
+   *
+   * @param gameState - The current state of the game to render.
+   * @returns The rows of the board, each one a list of drawn cells.
+   */
+  private buildCells(gameState: IGameState): string[][]
+  {
+    const cellWidth = this.getCellWidth()
+    const box = this.boxGlyphs
+    const border = this.hasBorder() ? TextUtils.padEnd(box?.vertical ?? this.drawBorder(), cellWidth) : ''
+
+    const borderRow = (left: string, right: string): string[] =>
+    {
+      return box
+        ? [left, ...Array<string>((this.board.width + 2) * cellWidth - 2).fill(box.horizontal), right]
+        : Array<string>(this.board.width + 2).fill(border)
+    }
+
+    const rows: string[][] = []
+
+    if (border)
+    {
+      rows.push(borderRow(box?.topLeft ?? '', box?.topRight ?? ''))
+    }
 
     for (let y = 0; y < this.board.height; y++)
     {
-      let row = ''
+      const row: string[] = border ? [border] : []
 
       for (let x = 0; x < this.board.width; x++)
       {
         const position: Position = [x, y]
 
-        row += this.getCellIcon(position, gameState)
+        row.push(TextUtils.padEnd(this.drawCell(this.getCell(position, gameState), gameState), cellWidth))
+      }
+
+      if (border)
+      {
+        row.push(border)
+      }
+
+      rows.push(row)
+    }
+
+    if (border)
+    {
+      rows.push(borderRow(box?.bottomLeft ?? '', box?.bottomRight ?? ''))
+    }
+
+    return rows
+  }
+
+  /**
+   * Checks if the board has as many rows and cells per row as in the previous frame.
+   *
+   * @param cells - The rows of drawn cells of the current frame.
+   * @returns True if the cells can be compared one by one, false if the whole frame must be drawn.
+   */
+  private hasSameShape(cells: string[][]): boolean
+  {
+    return cells.length === this.previousCells.length &&
+      cells.every((row, y) => row.length === this.previousCells[y]!.length)
+  }
+
+  /**
+   * Builds the output rewriting the cells that differ from the previous frame.
+   * The column of each cell adds up the widths of the cells before it, so wide glyphs are accounted for.
+   *
+   * @param cells - The rows of drawn cells of the current frame.
+   * @returns The cursor moves and cells to write, empty if nothing changed.
+   */
+  private buildCellUpdates(cells: string[][]): string
+  {
+    let output = ''
+
+    cells.forEach((row, y) =>
+    {
+      let column = 1
+
+      row.forEach((cell, x) =>
+      {
+        if (cell !== this.previousCells[y]![x])
+        {
+          output += `\x1b[${y + 1};${column}H${cell}`
+        }
+
+        column += TextUtils.width(cell)
+      })
+    })
+
+    return output
+  }
+
+  /**
+   * Returns the width of a cell in terminal columns, the width of the widest icon.
+   *
+   * @returns The width of a cell.
+   */
+  protected getCellWidth(): number
+  {
+    return this.iconWidth
+  }
+
+  /**
+   * Calculates the width of the widest icon in terminal columns.
+   *
+   * @param icons - The icons to measure.
+   * @returns The width of the widest icon, at least 1.
+   */
+  private measureIcons(icons: IIconsConfig): number
+  {
+    const widths = Object.values(icons)
+      .filter((icon): icon is string => icon !== undefined)
+      .map((icon) => TextUtils.width(icon))
+
+    return Math.max(1, ...widths)
+  }
+
+  /**
+   * Returns the size of the terminal the output is written to.
+   *
+   * @returns The columns and rows of the terminal, or null if the output is not a terminal.
+   */
+  private getTerminalSize(): { columns: number, rows: number } | null
+  {
+    const { columns, rows } = this.output as Partial<WriteStream>
+
+    return columns && rows ? { columns, rows } : null
+  }
+
+  /**
+   * Starts redrawing the frame whenever the terminal is resized.
+   * Terminals report resizes with SIGWINCH, which Node turns into 'resize' events on the output.
+   */
+  private listenToResize(): void
+  {
+    if (this.resizeListener || !this.getTerminalSize())
+    {
+      return
+    }
+
+    this.resizeListener = () =>
+    {
+      this.isFirstRender = true
+
+      if (this.lastState)
+      {
+        this.render(this.lastState)
       }
+    }
+
+    this.output.on('resize', this.resizeListener)
+  }
 
-      boardString += row + '\n'
+  /**
+   * Checks if the frame fits in the terminal, and tells the listeners when that changes.
+   * The whole frame is drawn again once it fits.
+   *
+   * @returns True if the frame fits, or if the output is not a terminal.
+   */
+  private updateFit(): boolean
+  {
+    const terminal = this.getTerminalSize()
+    const fits = !terminal || (this.getFrameWidth() <= terminal.columns && this.getFrameHeight() <= terminal.rows)
+
+    if (fits !== this.fits)
+    {
+      this.fits = fits
+      this.isFirstRender = true
+      this.fitListeners.forEach((listener) => listener(fits))
     }
 
-    return boardString
+    return fits
+  }
+
+  /**
+   * Draws a notice asking for a larger terminal instead of the frame.
+   */
+  private drawTooSmallNotice(): void
+  {
+    const terminal = this.getTerminalSize()
+    const lines =
+    [
+      'Terminal too small',
+      `Need ${this.getFrameWidth()}x${this.getFrameHeight()}, have ${terminal?.columns ?? 0}x${terminal?.rows ?? 0}`,
+      'Enlarge it to resume',
+    ]
+
+    this.clearScreen()
+    this.write(lines.join('\n') + '\n')
+  }
+
+  /**
+   * Checks if the board is drawn with a border, which is the case for walled boards.
+   *
+   * @returns True if a border is drawn, false otherwise.
+   */
+  private hasBorder(): boolean
+  {
+    return this.board.edges === 'walls'
+  }
+
+  /**
+   * Calculates the width of the drawn board in terminal columns.
+   *
+   * @returns The width of the board, including the border if any.
+   */
+  private getFrameWidth(): number
+  {
+    const borderCells = this.hasBorder() ? 2 : 0
+
+    return (this.board.width + borderCells) * this.getCellWidth()
   }
 
   /**
-   * Determines the icon to render at a specific position based on the game state.
-   * It checks for apples, power-ups, and snake segments to decide which icon to use.
+   * Calculates the height of the drawn frame in terminal rows.
+   *
+   * @returns The height of the board, including the border if any, and of the status lines.
+   */
+  private getFrameHeight(): number
+  {
+    const borderCells = this.hasBorder() ? 2 : 0
+
+    return this.board.height + borderCells + HUD_ROWS
+  }
+
+  /**
+   * Determines what to render at a specific position based on the game state.
+   * It checks for apples, power-ups, snake segments and walls, in that order.
    *
    * @param position - The position on the board to check.
    * @param gameState - The current state of the game.
-   * @returns The icon string to render at the specified position.
+   * @returns What the cell holds.
    */
-  private getCellIcon(position: Position, gameState: IGameState): string
+  protected getCell(position: Position, gameState: IGameState): RenderCell
   {
     const [x, y] = position
 
     if (gameState.apple[0] === x && gameState.apple[1] === y)
     {
-      return this.icons.apple
+      return { kind: 'apple' }
     }
 
     const powerUp = gameState.powerUps.find((p) =>
@@ -172,20 +560,117 @@ export class RenderService
 
     if (powerUp)
     {
-      return this.icons[powerUp.type]
+      return { kind: 'powerUp', type: powerUp.type }
     }
 
-    const isSnakeSegment = gameState.snake.some((segment) =>
+    const players = this.getPlayers(gameState)
+
+    for (const [player, { snake }] of players.entries())
     {
-      return segment[0] === x && segment[1] === y
-    })
+      const segment = snake.findIndex((s) => s[0] === x && s[1] === y)
+
+      if (segment !== -1)
+      {
+        return { kind: 'snake', player, segment }
+      }
+    }
+
+    if (this.obstacles.has(BoardUtils.toKey(position)))
+    {
+      return { kind: 'wall' }
+    }
+
+    return { kind: 'background' }
+  }
+
+  /**
+   * Returns the icon a cell is drawn with.
+   *
+   * @param cell - What the cell holds.
+   * @param gameState - The current state of the game.
+   * @returns The icon string to render for the cell.
+   */
+  protected drawCell(cell: RenderCell, gameState: IGameState): string
+  {
+    switch (cell.kind)
+    {
+      case 'apple':
+        return this.icons.apple
+      case 'powerUp':
+        return this.icons[cell.type]
+      case 'snake':
+        return this.getSnakeSprite(cell, gameState) ?? this.getPlayerIcon(this.getPlayers(gameState), cell.player)
+      case 'wall':
+        return this.icons.wall
+      case 'background':
+        return this.icons.background
+    }
+  }
 
-    if (isSnakeSegment)
+  /**
+   * Returns the sprite of a segment of player one's snake, telling its head, body and tail apart.
+   *
+   * @param cell - A snake cell.
+   * @param gameState - The current state of the game.
+   * @returns The icon of the sprite, or undefined if it is not set or the segment is another player's.
+   */
+  protected getSnakeSprite(cell: Extract<RenderCell, { kind: 'snake' }>, gameState: IGameState): string | undefined
+  {
+    if (cell.player !== 0)
     {
-      return this.icons.snake
+      return undefined
     }
 
-    return this.icons.background
+    const player = this.getPlayers(gameState)[0]!
+    const sprite = SnakeSprites.getSprite(player.snake, cell.segment, this.board, player.direction)
+
+    return sprite ? this.icons[sprite] : undefined
+  }
+
+  /**
+   * Returns the border drawn on the sides of a walled board, one cell wide.
+   *
+   * @returns The border icon.
+   */
+  protected drawBorder(): string
+  {
+    return this.icons.border
+  }
+
+  /**
+   * Styles the status lines below the board.
+   *
+   * @param hud - The status lines.
+   * @returns The styled status lines, unchanged by default.
+   */
+  protected styleHud(hud: string): string
+  {
+    return hud
+  }
+
+  /**
+   * Returns the players of a game state, or player one alone in a game state without players.
+   *
+   * @param gameState - The current state of the game.
+   * @returns The players with their snake and icon.
+   */
+  protected getPlayers(gameState: IGameState): Pick<IPlayerState, 'icon' | 'rival' | 'snake' | 'direction'>[]
+  {
+    return gameState.players.length > 0
+      ? gameState.players
+      : [{ snake: gameState.snake, icon: this.icons.snake }]
+  }
+
+  /**
+   * Returns the icon a player's snake is drawn with.
+   *
+   * @param players - The players, or only the snake and icon of player one in a game state without players.
+   * @param index - The index of the player.
+   * @returns The icon of the snake.
+   */
+  protected getPlayerIcon(players: Pick<IPlayerState, 'icon' | 'rival'>[], index: number): string
+  {
+    return players[index]?.icon ?? this.icons.snake
   }
 
   /**
@@ -197,23 +682,25 @@ export class RenderService
    */
   private buildUI(gameState: IGameState): string
   {
-    const text = `🏆 ${gameState.score} - 📏 ${gameState.snake.length}`
+    const text = gameState.players.length > 1
+      ? gameState.players.map((player, index) => `${this.getPlayerIcon(gameState.players, index)} ${player.score}`).join(' - ')
+      : `${this.labels.score} ${gameState.score} - ${this.labels.length} ${gameState.snake.length}`
+    const autopilotIndicator = gameState.autopilot ? ` - ${this.labels.autopilot}` : ''
     const activepowerUpsIcons = this.getActivePowerUpsDisplay(gameState.activePowerUps)
 
-    const totalWidth = this.board.width * 2
-    const rightMargin = activepowerUpsIcons.length
-    const availableSpace = totalWidth - text.length - rightMargin
+    const totalWidth = this.getFrameWidth()
+    const rightMargin = TextUtils.width(activepowerUpsIcons)
+    const availableSpace = totalWidth - TextUtils.width(text) - TextUtils.width(autopilotIndicator) - rightMargin
     const spacing = Math.max(1, availableSpace)
 
-    const bottomLine = text + ' '.repeat(spacing) + activepowerUpsIcons
+    const bottomLine = text + autopilotIndicator + ' '.repeat(spacing) + activepowerUpsIcons
 
     let ui = `\n${bottomLine}\n`
 
     if (this.overlayMessage)
     {
-      const boardWidth = this.board.width * 2
-      const padding = Math.max(0, Math.floor((boardWidth - this.overlayMessage.length) / 2))
-      ui += ' '.repeat(padding) + this.overlayMessage + '\n'
+      const boardWidth = this.getFrameWidth()
+      ui += TextUtils.center(this.overlayMessage, boardWidth) + '\n'
     }
 
     ui += this.buildGameStatusMessages(gameState)
@@ -223,22 +710,52 @@ export class RenderService
 
   /**
    * Renders a partial update of the game state.
-   * It updates only the changed positions on the board, which is more efficient for frequent updates.
+   * It updates only the given positions on the board and the status lines if they changed,
+   * without comparing the other cells. The whole frame is drawn if none was drawn yet,
+   * and nothing is drawn over the notice shown while the terminal is too small.
    *
    * @param gameState - The current state of the game to render.
    * @param changedPositions - An array of positions that have changed since the last render.
    */
   renderPartial(gameState: IGameState, changedPositions: Position[]): void
   {
+    if (this.isFirstRender || !this.fits)
+    {
+      this.render(gameState)
+
+      return
+    }
+
+    const cellWidth = this.getCellWidth()
+    const offset = this.hasBorder() ? 1 : 0
+    const hud = this.styleHud(this.buildUI(gameState))
+
+    let output = ''
+
     changedPositions.forEach((position) =>
     {
       const [x, y] = position
-      const icon = this.getCellIcon(position, gameState)
+      const row = this.previousCells[y + offset]
+
+      if (row && x >= 0 && x < this.board.width)
+      {
+        const cell = TextUtils.padEnd(this.drawCell(this.getCell(position, gameState), gameState), cellWidth)
 
-      process.stdout.write(`\x1b[${y + 1};${x + 1}H${icon}`)
+        row[x + offset] = cell
+        output += `\x1b[${y + offset + 1};${(x + offset) * cellWidth + 1}H${cell}`
+      }
     })
 
-    process.stdout.write(this.buildUI(gameState))
+    if (hud !== this.previousHud)
+    {
+      output += `\x1b[${this.previousCells.length + 1};1H\x1b[J${hud}`
+      this.previousHud = hud
+    }
+
+    if (output !== '')
+    {
+      this.write(output)
+    }
   }
 
   /**
@@ -255,7 +772,7 @@ export class RenderService
       return ''
     }
 
-    const currentTime = Date.now()
+    const currentTime = this.clock.now()
 
     return activePowerUps
       .map((activePowerUp) =>
@@ -276,6 +793,26 @@ export class RenderService
       .join(' ')
   }
 
+  /**
+   * Builds the message announcing the outcome of a game with several players.
+   *
+   * @param gameState - The state of the finished game.
+   * @returns The name of the winner with their score, or a draw.
+   */
+  private getWinnerMessage(gameState: IGameState): string
+  {
+    const winner = gameState.winner !== null && gameState.winner !== undefined
+      ? gameState.players[gameState.winner]
+      : undefined
+
+    if (!winner)
+    {
+      return 'DRAW'
+    }
+
+    return `${this.getPlayerIcon(gameState.players, gameState.players.indexOf(winner))} ${winner.name.toUpperCase()} WINS with ${winner.score}`
+  }
+
   /**
    * Builds the game status messages as a string.
    * It displays messages for game over, pause, and other relevant status updates.
@@ -285,7 +822,7 @@ export class RenderService
    */
   private buildGameStatusMessages(gameState: IGameState): string
   {
-    const boardWidth = this.board.width * 2
+    const boardWidth = this.getFrameWidth()
     let statusString = ''
 
     const getPadding = (length: number): number =>
@@ -302,6 +839,14 @@ export class RenderService
       const quitPadding = getPadding(quitMessage.length)
 
       statusString += '\n' + ' '.repeat(gameOverPadding) + gameOverMessage
+
+      if (gameState.winner !== undefined)
+      {
+        const winnerMessage = this.getWinnerMessage(gameState)
+
+        statusString += '\n' + ' '.repeat(getPadding(TextUtils.width(winnerMessage))) + winnerMessage
+      }
+
       statusString += '\n' + ' '.repeat(quitPadding) + quitMessage
     }
 
@@ -1,6 +1,14 @@
+import type { IClock } from '@utils/Clock'
+import type { IRenderer } from '@renderers/Renderer'
+
 export type PowerUpType = 'magnet' | 'slowMotion' | 'bonus' | 'invincibility' | 'teleport' | 'boost' | 'freeze'
 export type Difficulty = 'easy' | 'medium' | 'high' | 'custom'
 export type Range = 'regular' | 'expanded'
+export type BoardEdges = 'wrap' | 'walls'
+export type RivalBehavior = 'greedy' | 'cautious' | 'random'
+export type RendererType = 'auto' | 'emoji' | 'ascii' | 'box' | 'color' | 'none'
+export type AsciiCharset = 'ascii' | 'unicode'
+export type ColorMode = 'truecolor' | 'ansi256' | 'none'
 export type Position = [number, number]
 export type Direction = Position
 
@@ -16,6 +24,10 @@ export interface IBoardConfig
 {
   width: number
   height: number
+  size?: 'auto'
+  edges?: BoardEdges
+  obstacles?: Position[]
+  layout?: string
 }
 
 export interface IGameSettings
@@ -25,6 +37,33 @@ export interface IGameSettings
   expandedRange: number
   updateTime?: number
   allowCheats?: boolean
+  seed?: number
+  headless?: boolean
+  startPosition?: Position
+  startDirection?: Movement
+  initialScore?: number
+  replayFile?: string
+  saveFile?: string
+  twoPlayer?: boolean
+  rivals?: IRivalConfig[]
+  autopilot?: boolean
+  inputScript?: string
+  keyboard?: boolean
+  renderer?: RendererType
+  colorMode?: ColorMode | 'auto'
+}
+
+export interface IRivalConfig
+{
+  behavior: RivalBehavior
+  icon?: string
+}
+
+export interface ILevelConfig
+{
+  name?: string
+  targetScore?: number
+  targetLength?: number
 }
 
 export interface IPowerUpSettings
@@ -45,10 +84,19 @@ export interface IPowerUpConfig
   freeze: IPowerUpSettings
 }
 
-export interface IIconsConfig
+export type SnakeSprite =
+  | 'snakeHeadUp' | 'snakeHeadDown' | 'snakeHeadLeft' | 'snakeHeadRight'
+  | 'snakeBodyHorizontal' | 'snakeBodyVertical'
+  | 'snakeBodyUpLeft' | 'snakeBodyUpRight' | 'snakeBodyDownLeft' | 'snakeBodyDownRight'
+  | 'snakeTailUp' | 'snakeTailDown' | 'snakeTailLeft' | 'snakeTailRight'
+
+export interface IIconsConfig extends Partial<Record<SnakeSprite, string>>
 {
   background: string
+  border: string
+  wall: string
   snake: string
+  snakeTwo: string
   apple: string
   magnet: string
   slowMotion: string
@@ -59,12 +107,36 @@ export interface IIconsConfig
   freeze: string
 }
 
+export type ThemeElement = 'background' | 'bonusBackground' | 'border' | 'wall' | 'snakeHead' | 'snakeBody' | 'snakeTwoHead' | 'snakeTwoBody' | 'rivalHead' | 'rivalBody' | 'apple' | PowerUpType | 'hud'
+
+export interface IThemeStyle
+{
+  glyph: string
+  fg?: string
+  bg?: string
+}
+
+export interface ITheme
+{
+  name: string
+  styles: Record<ThemeElement, IThemeStyle>
+}
+
+export type KeyAction = Movement | 'playerTwoUp' | 'playerTwoLeft' | 'playerTwoRight' | 'playerTwoDown' | 'pause' | 'restart' | 'quit' | 'save' | 'autopilot'
+
+export type IKeyBindings = Record<KeyAction, string[]>
+
 export interface IGameConfig
 {
   board: IBoardConfig
   game: IGameSettings
   powerUps: IPowerUpConfig
   icons: IIconsConfig
+  keyBindings: IKeyBindings
+  level?: ILevelConfig
+  theme?: ITheme
+  clock?: IClock
+  renderer?: IRenderer
 }
 
 export interface IPowerUp
@@ -81,6 +153,17 @@ export interface IActivePowerUp
   duration: number
 }
 
+export interface IPlayerState
+{
+  name: string
+  icon: string
+  snake: Position[]
+  direction?: Direction
+  score: number
+  alive: boolean
+  rival?: boolean
+}
+
 export interface IGameState
 {
   snake: Position[]
@@ -90,6 +173,9 @@ export interface IGameState
   isGameOver: boolean
   isPaused: boolean
   activePowerUps: IActivePowerUp[]
+  players: IPlayerState[]
+  winner?: number | null
+  autopilot?: boolean
 }
 
 export interface ISpeedConfig
@@ -104,3 +190,173 @@ export interface IBoardDimensions
   width: number
   height: number
 }
+
+export type CheatResult = 'activated' | 'deactivated' | 'instant' | 'unknown'
+
+export interface IGameEventBase
+{
+  tick: number
+}
+
+export interface IGameEvents
+{
+  tickStarted: IGameEventBase
+  appleEaten: IGameEventBase & { player: number, position: Position, score: number, length: number }
+  powerUpSpawned: IGameEventBase & { type: PowerUpType, position: Position }
+  powerUpCollected: IGameEventBase & { player: number, type: PowerUpType, position: Position, duration: number }
+  powerUpExpired: IGameEventBase & { type: PowerUpType }
+  directionChanged: IGameEventBase & { player: number, from: Direction, to: Direction, head: Position }
+  selfCollision: IGameEventBase & { player: number, head: Position }
+  wallCollision: IGameEventBase & { player: number, head: Position }
+  snakeCollision: IGameEventBase & { player: number, other: number, head: Position }
+  gameOver: IGameEventBase & { score: number, length: number, head: Position, winner?: number | null }
+  paused: IGameEventBase
+  resumed: IGameEventBase
+  restarted: IGameEventBase
+  autopilotToggled: IGameEventBase & { enabled: boolean }
+  cheatActivated: IGameEventBase & { code: string, result: CheatResult }
+  levelCompleted: IGameEventBase & { name?: string, score: number, length: number }
+}
+
+export interface ICampaignOptions
+{
+  carryOverScore?: boolean
+  intermissionTime?: number
+}
+
+export interface ILevelResult
+{
+  name: string
+  score: number
+  length: number
+  ticks: number
+  completed: boolean
+}
+
+export interface ICampaignResult
+{
+  completed: boolean
+  levels: ILevelResult[]
+  totalScore: number
+}
+
+export interface ICampaignEvents
+{
+  levelStarted: { index: number, name: string }
+  levelFinished: ILevelResult & { index: number }
+  finished: ICampaignResult
+}
+
+export type ReplayInput =
+  | { tick: number, type: 'direction', direction: Direction, player?: number }
+  | { tick: number, type: 'cheat', code: string }
+  | { tick: number, type: 'pause', duration?: number }
+  | { tick: number, type: 'autopilot', enabled: boolean }
+
+export interface IReplay
+{
+  version: number
+  seed: number
+  config: IGameConfig
+  inputs: ReplayInput[]
+  finalTick: number
+}
+
+export type ObservationEncoding = 'grid' | 'features' | 'relative'
+export type ActionSpace = 'absolute' | 'relative'
+export type DeathCause = 'wall' | 'self' | 'snake'
+
+export interface IRewardConfig
+{
+  apple: number
+  death: number
+  step: number
+  powerUp: number
+}
+
+export interface ISnakeEnvOptions
+{
+  config?: Partial<IGameConfig>
+  observation?: ObservationEncoding
+  actions?: ActionSpace
+  rewards?: Partial<IRewardConfig>
+  maxSteps?: number
+  viewRadius?: number
+}
+
+export interface IObservation
+{
+  data: Float32Array
+  shape: number[]
+}
+
+export interface IEnvInfo
+{
+  seed: number
+  tick: number
+  score: number
+  length: number
+  apples: number
+  powerUps: number
+  cause?: DeathCause
+  truncated: boolean
+}
+
+export interface IStepResult
+{
+  observation: IObservation
+  reward: number
+  done: boolean
+  info: IEnvInfo
+}
+
+export type SimulationController = 'autopilot' | 'none' | RivalBehavior
+export type GameEndCause = DeathCause | 'timeout' | 'levelComplete'
+
+export interface ISimulationOptions
+{
+  games: number
+  seed?: number
+  controller?: SimulationController
+  config?: Partial<IGameConfig>
+  workers?: number
+  maxTicks?: number
+}
+
+export interface ISimulationResult
+{
+  seed: number
+  score: number
+  length: number
+  ticks: number
+  powerUps: Partial<Record<PowerUpType, number>>
+  cause: GameEndCause
+}
+
+export interface IStatSummary
+{
+  mean: number
+  median: number
+  max: number
+}
+
+export interface ISimulationReport
+{
+  games: number
+  controller: SimulationController
+  duration: number
+  score: IStatSummary
+  length: IStatSummary
+  ticks: IStatSummary
+  powerUps: Partial<Record<PowerUpType, number>>
+  causes: Partial<Record<GameEndCause, number>>
+}
+
+export type ScriptCommand =
+  | { type: 'direction', direction: Direction, player: number }
+  | { type: 'wait', ticks: number }
+  | { type: 'cheat', code: string }
+  | { type: 'pause' }
+  | { type: 'restart' }
+  | { type: 'autopilot' }
+  | { type: 'quit' }
@@ -1,5 +1,10 @@
 import type { IBoardConfig, Position } from '@type/global'
 
+/**
+ * Character used for wall cells in ASCII board layouts.
+ */
+export const LAYOUT_WALL_CHAR = '#'
+
 /**
  * BoardUtils provides utility methods for working with game boards,
  * such as calculating the center position and total number of cells.
@@ -28,4 +33,47 @@ export class BoardUtils
   {
     return board.width * board.height
   }
+
+  /**
+   * Gets a string key that identifies a position, for use in sets and maps.
+   * @param position Position as [x, y]
+   * @returns Key in the form "x,y"
+   */
+  static toKey(position: Position): string
+  {
+    return `${position[0]},${position[1]}`
+  }
+
+  /**
+   * Parses an ASCII board layout where '#' marks a wall and any other character is empty.
+   * Leading and trailing blank lines are ignored; the width is that of the longest line.
+   * @param layout ASCII layout, one line per board row
+   * @returns Board size and the positions of the walls
+   */
+  static parseLayout(layout: string): { width: number, height: number, obstacles: Position[] }
+  {
+    const lines = layout.replace(/\r/g, '').split('\n')
+
+    while (lines.length > 0 && lines[0]!.trim() === '') lines.shift()
+    while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') lines.pop()
+
+    const obstacles: Position[] = []
+
+    lines.forEach((line, y) =>
+    {
+      Array.from(line).forEach((char, x) =>
+      {
+        if (char === LAYOUT_WALL_CHAR)
+        {
+          obstacles.push([x, y])
+        }
+      })
+    })
+
+    return {
+      width: Math.max(0, ...lines.map((line) => Array.from(line).length)),
+      height: lines.length,
+      obstacles
+    }
+  }
 }
@@ -0,0 +1,291 @@
+/**
+ * Opaque handle returned by a clock when scheduling a timeout or interval.
+ */
+export type TimerHandle = number
+
+/**
+ * A time source and scheduler used by the game.
+ *
+ * Every piece of the game that needs the current time or a delayed callback
+ * goes through a clock so the whole game can be driven by a single source.
+ */
+export interface IClock
+{
+  now(): number
+  setTimeout(callback: () => void, delay: number): TimerHandle
+  clearTimeout(handle: TimerHandle): void
+  setInterval(callback: () => void, interval: number): TimerHandle
+  clearInterval(handle: TimerHandle): void
+}
+
+/**
+ * Clock backed by the system time and the native timer functions.
+ */
+export class SystemClock implements IClock
+{
+  private nextHandle: TimerHandle = 1
+  private timers: Map<TimerHandle, Timer> = new Map()
+
+  /**
+   * Returns the current system time.
+   *
+   * @returns The current time in milliseconds.
+   */
+  now(): number
+  {
+    return Date.now()
+  }
+
+  /**
+   * Schedules a callback to run once after a delay.
+   *
+   * @param callback - The function to call after the delay.
+   * @param delay - The delay in milliseconds.
+   * @returns The handle of the timeout.
+   */
+  setTimeout(callback: () => void, delay: number): TimerHandle
+  {
+    const handle = this.nextHandle++
+
+    const timer = setTimeout(() =>
+    {
+      this.timers.delete(handle)
+
+      callback()
+    }, delay)
+
+    this.timers.set(handle, timer)
+
+    return handle
+  }
+
+  /**
+   * Cancels a pending timeout.
+   *
+   * @param handle - The handle of the timeout to cancel.
+   */
+  clearTimeout(handle: TimerHandle): void
+  {
+    const timer = this.timers.get(handle)
+
+    if (timer)
+    {
+      clearTimeout(timer)
+      this.timers.delete(handle)
+    }
+  }
+
+  /**
+   * Schedules a callback to run repeatedly.
+   *
+   * @param callback - The function to call on each interval.
+   * @param interval - The interval duration in milliseconds.
+   * @returns The handle of the interval.
+   */
+  setInterval(callback: () => void, interval: number): TimerHandle
+  {
+    const handle = this.nextHandle++
+
+    this.timers.set(handle, setInterval(callback, interval))
+
+    return handle
+  }
+
+  /**
+   * Cancels a running interval.
+   *
+   * @param handle - The handle of the interval to cancel.
+   */
+  clearInterval(handle: TimerHandle): void
+  {
+    const timer = this.timers.get(handle)
+
+    if (timer)
+    {
+      clearInterval(timer)
+      this.timers.delete(handle)
+    }
+  }
+}
+
+interface ManualTimer
+{
+  handle: TimerHandle
+  callback: () => void
+  dueTime: number
+  interval: number | null
+}
+
+/**
+ * Clock whose time only moves when it is explicitly advanced.
+ *
+ * Timers fire synchronously, in due-time order, while the clock is advanced,
+ * which makes the game loop and power-up durations fully deterministic.
+ */
+export class ManualClock implements IClock
+{
+  private currentTime: number
+  private nextHandle: TimerHandle = 1
+  private timers: Map<TimerHandle, ManualTimer> = new Map()
+
+  constructor(startTime: number = 0)
+  {
+    this.currentTime = startTime
+  }
+
+  /**
+   * Returns the current simulated time.
+   *
+   * @returns The current time in milliseconds.
+   */
+  now(): number
+  {
+    return this.currentTime
+  }
+
+  /**
+   * Schedules a callback to run once when the clock reaches the due time.
+   *
+   * @param callback - The function to call after the delay.
+   * @param delay - The delay in milliseconds.
+   * @returns The handle of the timeout.
+   */
+  setTimeout(callback: () => void, delay: number): TimerHandle
+  {
+    return this.schedule(callback, Math.max(0, delay), null)
+  }
+
+  /**
+   * Cancels a pending timeout.
+   *
+   * @param handle - The handle of the timeout to cancel.
+   */
+  clearTimeout(handle: TimerHandle): void
+  {
+    this.timers.delete(handle)
+  }
+
+  /**
+   * Schedules a callback to run every time the clock crosses the interval.
+   *
+   * @param callback - The function to call on each interval.
+   * @param interval - The interval duration in milliseconds.
+   * @returns The handle of the interval.
+   */
+  setInterval(callback: () => void, interval: number): TimerHandle
+  {
+    const safeInterval = Math.max(1, interval)
+
+    return this.schedule(callback, safeInterval, safeInterval)
+  }
+
+  /**
+   * Cancels a running interval.
+   *
+   * @param handle - The handle of the interval to cancel.
+   */
+  clearInterval(handle: TimerHandle): void
+  {
+    this.timers.delete(handle)
+  }
+
+  /**
+   * Advances the clock, firing every timer that falls due along the way.
+   *
+   * @param ms - The amount of time to advance in milliseconds.
+   */
+  advance(ms: number): void
+  {
+    const targetTime = this.currentTime + Math.max(0, ms)
+    let timer = this.findNextTimer(targetTime)
+
+    while (timer)
+    {
+      this.fire(timer)
+      timer = this.findNextTimer(targetTime)
+    }
+
+    this.currentTime = targetTime
+  }
+
+  /**
+   * Advances the clock straight to the next pending timer and fires it.
+   *
+   * @returns True if a timer was fired, false if none were pending.
+   */
+  advanceToNextTimer(): boolean
+  {
+    const timer = this.findNextTimer(Infinity)
+
+    if (!timer)
+    {
+      return false
+    }
+
+    this.fire(timer)
+
+    return true
+  }
+
+  /**
+   * Returns the number of timers that have not fired or been cleared yet.
+   *
+   * @returns The number of pending timers.
+   */
+  getPendingCount(): number
+  {
+    return this.timers.size
+  }
+
+  private schedule(callback: () => void, delay: number, interval: number | null): TimerHandle
+  {
+    const handle = this.nextHandle++
+
+    this.timers.set(handle,
+    {
+      handle,
+      callback,
+      dueTime: this.currentTime + delay,
+      interval
+    })
+
+    return handle
+  }
+
+  private fire(timer: ManualTimer): void
+  {
+    this.currentTime = Math.max(this.currentTime, timer.dueTime)
+
+    if (timer.interval !== null)
+    {
+      timer.dueTime += timer.interval
+    }
+
+    else
+    {
+      this.timers.delete(timer.handle)
+    }
+
+    timer.callback()
+  }
+
+  private findNextTimer(limit: number): ManualTimer | null
+  {
+    let next: ManualTimer | null = null
+
+    for (const timer of this.timers.values())
+    {
+      if (timer.dueTime > limit)
+      {
+        continue
+      }
+
+      if (!next || timer.dueTime < next.dueTime || (timer.dueTime === next.dueTime && timer.handle < next.handle))
+      {
+        next = timer
+      }
+    }
+
+    return next
+  }
+}
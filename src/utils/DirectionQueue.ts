@@ -0,0 +1,102 @@
+import type { Direction } from '@type/global'
+import { MathUtils } from '@utils/MathUtils'
+
+/**
+ * Default number of turns that can be waiting at once.
+ */
+const DEFAULT_CAPACITY = 3
+
+/**
+ * DirectionQueue buffers the turns requested between two ticks so none is lost.
+ *
+ * One turn is taken per tick. Each turn is checked against the direction the snake
+ * will be following when it is applied: turns that change nothing or reverse the
+ * snake onto itself are dropped, both when queued and when taken.
+ */
+export class DirectionQueue
+{
+  private turns: Direction[] = []
+  private readonly capacity: number
+
+  constructor(capacity: number = DEFAULT_CAPACITY)
+  {
+    this.capacity = capacity
+  }
+
+  /**
+   * Queues a turn, unless it is pointless after the turns already queued or the queue is full.
+   *
+   * @param direction - The requested direction.
+   * @param current - The direction the snake is following now, if known.
+   * @param canReverse - Whether the snake can turn back, which a single segment snake can.
+   * @returns True if the turn was queued, false if it was dropped.
+   */
+  push(direction: Direction, current: Direction | null = null, canReverse: boolean = false): boolean
+  {
+    const previous = this.turns[this.turns.length - 1] ?? current
+
+    if (this.turns.length >= this.capacity || (previous && !this.isValidTurn(direction, previous, canReverse)))
+    {
+      return false
+    }
+
+    this.turns.push([...direction] as Direction)
+
+    return true
+  }
+
+  /**
+   * Takes the next turn that is still valid from the direction the snake is following.
+   *
+   * @param current - The direction the snake is following now.
+   * @param canReverse - Whether the snake can turn back, which a single segment snake can.
+   * @returns The direction to apply on this tick, or null if there is none.
+   */
+  next(current: Direction, canReverse: boolean = false): Direction | null
+  {
+    let turn = this.turns.shift()
+
+    while (turn && !this.isValidTurn(turn, current, canReverse))
+    {
+      turn = this.turns.shift()
+    }
+
+    return turn ?? null
+  }
+
+  /**
+   * Drops every queued turn.
+   */
+  clear(): void
+  {
+    this.turns = []
+  }
+
+  /**
+   * Returns the number of queued turns.
+   *
+   * @returns The number of turns waiting to be applied.
+   */
+  size(): number
+  {
+    return this.turns.length
+  }
+
+  /**
+   * Checks if a turn changes the direction without reversing the snake.
+   *
+   * @param direction - The requested direction.
+   * @param from - The direction the snake will be following before the turn.
+   * @param canReverse - Whether the snake can turn back.
+   * @returns True if the turn is worth applying, false otherwise.
+   */
+  private isValidTurn(direction: Direction, from: Direction, canReverse: boolean): boolean
+  {
+    if (MathUtils.positionsEqual(direction, from))
+    {
+      return false
+    }
+
+    return canReverse || !MathUtils.positionsEqual(direction, [-from[0], -from[1]])
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Listener function for a single event of an event map.
+ */
+export type EventListener<TPayload> = (payload: TPayload) => void
+
+/**
+ * A minimal typed event emitter.
+ *
+ * The generic event map associates each event name with the type of its payload,
+ * so listeners and emitters are checked against each other at compile time.
+ */
+export class EventEmitter<TEvents extends object>
+{
+  private listeners: Map<keyof TEvents, Set<EventListener<never>>> = new Map()
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @param event - The name of the event to listen for.
+   * @param listener - The function to call with the event payload.
+   * @returns A function that removes the listener when called.
+   */
+  on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void
+  {
+    let listeners = this.listeners.get(event)
+
+    if (!listeners)
+    {
+      listeners = new Set()
+      this.listeners.set(event, listeners)
+    }
+
+    listeners.add(listener)
+
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Registers a listener that is removed after its first call.
+   *
+   * @param event - The name of the event to listen for.
+   * @param listener - The function to call with the event payload.
+   * @returns A function that removes the listener when called.
+   */
+  once<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void
+  {
+    const unsubscribe = this.on(event, (payload) =>
+    {
+      unsubscribe()
+      listener(payload)
+    })
+
+    return unsubscribe
+  }
+
+  /**
+   * Removes a previously registered listener.
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): void
+  {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  /**
+   * Calls every listener registered for an event.
+   *
+   * @param event - The name of the event to emit.
+   * @param payload - The payload passed to each listener.
+   */
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void
+  {
+    const listeners = this.listeners.get(event)
+
+    if (!listeners)
+    {
+      return
+    }
+
+    for (const listener of [...listeners] as EventListener<TEvents[K]>[])
+    {
+      listener(payload)
+    }
+  }
+
+  /**
+   * Removes every listener of every event.
+   */
+  clear(): void
+  {
+    this.listeners.clear()
+  }
+}
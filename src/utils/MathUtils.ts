@@ -1,4 +1,7 @@
 import type { Position } from '@type/global'
+import { SystemRandom, type IRandom } from '@utils/Random'
+
+const defaultRandom: IRandom = new SystemRandom()
 
 /**
  * MathUtils provides utility functions for mathematical operations
@@ -12,11 +15,12 @@ export class MathUtils
    *
    * @param maxWidth - The maximum width of the board.
    * @param maxHeight - The maximum height of the board.
+   * @param random - The random source to draw from.
    * @returns A random position represented as a tuple [x, y].
    */
-  static getRandomPosition(maxWidth: number, maxHeight: number): Position
+  static getRandomPosition(maxWidth: number, maxHeight: number, random: IRandom = defaultRandom): Position
   {
-    const getRandom = (max: number): number => Math.floor(Math.random() * max)
+    const getRandom = (max: number): number => Math.floor(random.next() * max)
 
     return [getRandom(maxWidth), getRandom(maxHeight)]
   }
@@ -82,21 +86,23 @@ export class MathUtils
    *
    * @param min - The minimum value (inclusive).
    * @param max - The maximum value (inclusive).
+   * @param random - The random source to draw from.
    * @returns A random integer between min and max.
    */
-  static randomBetween(min: number, max: number): number
+  static randomBetween(min: number, max: number, random: IRandom = defaultRandom): number
   {
-    return Math.floor(Math.random() * (max - min + 1)) + min
+    return Math.floor(random.next() * (max - min + 1)) + min
   }
 
   /**
    * Determines if an event should happen based on a given probability.
    *
    * @param probability - The probability of the event occurring (0 to 1).
+   * @param random - The random source to draw from.
    * @returns True if the event should happen, false otherwise.
    */
-  static shouldHappen(probability: number): boolean
+  static shouldHappen(probability: number, random: IRandom = defaultRandom): boolean
   {
-    return Math.random() < probability
+    return random.next() < probability
   }
 }
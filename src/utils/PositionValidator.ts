@@ -1,5 +1,7 @@
 import type { IBoardConfig, Position } from '@type/global'
+import { SystemRandom, type IRandom } from '@utils/Random'
 import { MathUtils } from './MathUtils'
+import { BoardUtils } from './BoardUtils'
 
 /**
  * PositionValidator provides methods to validate and generate positions
@@ -8,14 +10,18 @@ import { MathUtils } from './MathUtils'
 export class PositionValidator
 {
   private readonly board: IBoardConfig
+  private readonly random: IRandom
+  private readonly obstacles: Set<string>
 
-  constructor(board: IBoardConfig)
+  constructor(board: IBoardConfig, random: IRandom = new SystemRandom())
   {
     this.board = board
+    this.random = random
+    this.obstacles = new Set((board.obstacles ?? []).map((position) => BoardUtils.toKey(position)))
   }
 
   /**
-   * Generates a valid position that is not occupied by any of the provided positions.
+   * Generates a valid position that is not occupied by any of the provided positions nor by a wall.
    *
    * @param occupiedPositions - An array of positions that are currently occupied.
    * @param maxAttempts - The maximum number of attempts to find a valid position.
@@ -28,9 +34,9 @@ export class PositionValidator
 
     while (attemptCount < attempts)
     {
-      const position = MathUtils.getRandomPosition(this.board.width, this.board.height)
+      const position = MathUtils.getRandomPosition(this.board.width, this.board.height, this.random)
 
-      if (!this.isPositionOccupied(position, occupiedPositions))
+      if (!this.isObstacle(position) && !this.isPositionOccupied(position, occupiedPositions))
       {
         return position
       }
@@ -56,6 +62,32 @@ export class PositionValidator
     })
   }
 
+  /**
+   * Checks if a snake can safely enter a position: it is on the board,
+   * not a wall and not occupied by any of the provided positions.
+   *
+   * @param position - The position to check as a tuple [x, y].
+   * @param occupiedPositions - The positions covered by every snake on the board.
+   * @returns True if the position is free, false otherwise.
+   */
+  isFree(position: Position, occupiedPositions: Position[]): boolean
+  {
+    return this.isValidPosition(position)
+      && !this.isObstacle(position)
+      && !this.isPositionOccupied(position, occupiedPositions)
+  }
+
+  /**
+   * Checks if a given position is a wall of the board layout.
+   *
+   * @param position - The position to check as a tuple [x, y].
+   * @returns True if the position is a wall, false otherwise.
+   */
+  isObstacle(position: Position): boolean
+  {
+    return this.obstacles.has(BoardUtils.toKey(position))
+  }
+
   /**
    * Validates if a position is within the bounds of the board.
    *
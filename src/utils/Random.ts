@@ -0,0 +1,110 @@
+/**
+ * A source of random numbers used by the game.
+ *
+ * Every random decision (spawning, probabilities, teleport) goes through a
+ * random source so a game can be reproduced from its seed.
+ */
+export interface IRandom
+{
+  next(): number
+}
+
+/**
+ * Random source backed by Math.random().
+ */
+export class SystemRandom implements IRandom
+{
+  /**
+   * Returns a random number in the range [0, 1).
+   *
+   * @returns A random floating point number.
+   */
+  next(): number
+  {
+    return Math.random()
+  }
+}
+
+/**
+ * Deterministic pseudo-random number generator (mulberry32).
+ * Two instances created with the same seed produce the same sequence.
+ */
+export class SeededRandom implements IRandom
+{
+  private seed: number
+  private state: number
+
+  constructor(seed: number)
+  {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Returns the next number of the sequence in the range [0, 1).
+   *
+   * @returns A pseudo-random floating point number.
+   */
+  next(): number
+  {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+
+    let t = this.state
+
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Returns the seed the generator was created or last reset with.
+   *
+   * @returns The seed as an unsigned 32-bit integer.
+   */
+  getSeed(): number
+  {
+    return this.seed
+  }
+
+  /**
+   * Returns the internal state of the generator, to resume the sequence later.
+   *
+   * @returns The state as an unsigned 32-bit integer.
+   */
+  getState(): number
+  {
+    return this.state
+  }
+
+  /**
+   * Resumes the sequence from a state returned by getState().
+   *
+   * @param state - The state to resume from.
+   */
+  setState(state: number): void
+  {
+    this.state = state >>> 0
+  }
+
+  /**
+   * Restarts the sequence, optionally with a new seed.
+   *
+   * @param seed - The seed to restart from, defaults to the current seed.
+   */
+  reset(seed: number = this.seed): void
+  {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Generates a fresh seed for games that were not given one.
+   *
+   * @returns A random unsigned 32-bit integer.
+   */
+  static generateSeed(): number
+  {
+    return Math.floor(Math.random() * 4294967296) >>> 0
+  }
+}
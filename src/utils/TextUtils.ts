@@ -0,0 +1,112 @@
+/**
+ * Matches ANSI escape sequences, which take no room on the terminal.
+ */
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\x1b\[[0-9;?]*[A-Za-z]/g
+
+/**
+ * Code point ranges drawn two columns wide: East Asian wide and fullwidth characters.
+ */
+const WIDE_RANGES: [number, number][] =
+[
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x20000, 0x3fffd],
+]
+
+const segmenter = new Intl.Segmenter()
+const widthCache = new Map<string, number>()
+
+/**
+ * TextUtils measures text as drawn on a terminal, where emoji and East Asian
+ * characters take two columns and combining marks and escape sequences none.
+ */
+export class TextUtils
+{
+  /**
+   * Calculates the number of terminal columns a text takes.
+   * Escape sequences are ignored, so colored text can be measured too.
+   *
+   * @param text - The text to measure, on a single line.
+   * @returns The width of the text in columns.
+   */
+  static width(text: string): number
+  {
+    const cached = widthCache.get(text)
+
+    if (cached !== undefined)
+    {
+      return cached
+    }
+
+    let width = 0
+
+    for (const { segment } of segmenter.segment(text.replace(ANSI_ESCAPE, '')))
+    {
+      width += this.graphemeWidth(segment)
+    }
+
+    if (widthCache.size < 1024)
+    {
+      widthCache.set(text, width)
+    }
+
+    return width
+  }
+
+  /**
+   * Pads a text with spaces on the right up to a width in columns.
+   *
+   * @param text - The text to pad.
+   * @param width - The width to reach.
+   * @returns The padded text, or the text itself if it is already as wide.
+   */
+  static padEnd(text: string, width: number): string
+  {
+    return text + ' '.repeat(Math.max(0, width - this.width(text)))
+  }
+
+  /**
+   * Pads a text with spaces on the left to center it within a width in columns.
+   *
+   * @param text - The text to center.
+   * @param width - The width to center the text within.
+   * @returns The text preceded by the padding.
+   */
+  static center(text: string, width: number): string
+  {
+    return ' '.repeat(Math.max(0, Math.floor((width - this.width(text)) / 2))) + text
+  }
+
+  /**
+   * Calculates the number of terminal columns a single grapheme takes.
+   *
+   * @param grapheme - A user-perceived character, possibly made of several code points.
+   * @returns 0, 1 or 2.
+   */
+  private static graphemeWidth(grapheme: string): number
+  {
+    const codePoint = grapheme.codePointAt(0) ?? 0
+
+    if (codePoint < 0x20 || (codePoint >= 0x7f && codePoint < 0xa0) || /^\p{M}+$/u.test(grapheme))
+    {
+      return 0
+    }
+
+    if (/\p{Emoji_Presentation}|\uFE0F|\p{Regional_Indicator}/u.test(grapheme))
+    {
+      return 2
+    }
+
+    return WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 2 : 1
+  }
+}
@@ -1,3 +1,5 @@
+import { SystemClock, type IClock, type TimerHandle } from '@utils/Clock'
+
 /**
  * Utility class for managing timers (timeouts and intervals).
  *
@@ -5,8 +7,14 @@
  */
 export class TimeManager
 {
-  private timeouts: Set<Timer> = new Set()
-  private intervals: Set<Timer> = new Set()
+  private readonly clock: IClock
+  private timeouts: Set<TimerHandle> = new Set()
+  private intervals: Set<TimerHandle> = new Set()
+
+  constructor(clock: IClock = new SystemClock())
+  {
+    this.clock = clock
+  }
 
   /**
    * Sets a timeout and returns its ID.
@@ -15,9 +23,9 @@ export class TimeManager
    * @param delay - The delay in milliseconds.
    * @returns The ID of the timeout.
    */
-  setTimeout(callback: () => void, delay: number): Timer
+  setTimeout(callback: () => void, delay: number): TimerHandle
   {
-    const timeoutId = setTimeout(() =>
+    const timeoutId = this.clock.setTimeout(() =>
     {
       this.timeouts.delete(timeoutId)
 
@@ -36,9 +44,9 @@ export class TimeManager
    * @param interval - The interval duration in milliseconds.
    * @returns The ID of the interval.
    */
-  setInterval(callback: () => void, interval: number): Timer
+  setInterval(callback: () => void, interval: number): TimerHandle
   {
-    const intervalId = setInterval(callback, interval)
+    const intervalId = this.clock.setInterval(callback, interval)
 
     this.intervals.add(intervalId)
 
@@ -50,11 +58,11 @@ export class TimeManager
    *
    * @param intervalId - The ID of the interval to clear.
    */
-  clearInterval(intervalId: Timer): void
+  clearInterval(intervalId: TimerHandle): void
   {
     if (this.intervals.has(intervalId))
     {
-      clearInterval(intervalId)
+      this.clock.clearInterval(intervalId)
       this.intervals.delete(intervalId)
     }
   }
@@ -64,8 +72,8 @@ export class TimeManager
    */
   clearAll(): void
   {
-    this.timeouts.forEach((id) => clearTimeout(id))
-    this.intervals.forEach((id) => clearInterval(id))
+    this.timeouts.forEach((id) => this.clock.clearTimeout(id))
+    this.intervals.forEach((id) => this.clock.clearInterval(id))
 
     this.timeouts.clear()
     this.intervals.clear()
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import { Movement, type IKeyBindings } from '@type/global'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { KeyBindingError, KeyBindings } from '@config/KeyBindings'
+import { DEFAULT_CONFIG } from '@config/defaults'
+
+const withBindings = (bindings: Partial<IKeyBindings>): IKeyBindings => ({ ...DEFAULT_CONFIG.keyBindings, ...bindings })
+
+describe('KeyBindings', () =>
+{
+  it('accepts the default bindings in both modes', () =>
+  {
+    expect(() => KeyBindings.validate(DEFAULT_CONFIG.keyBindings)).not.toThrow()
+    expect(() => KeyBindings.validate(DEFAULT_CONFIG.keyBindings, true)).not.toThrow()
+  })
+
+  it('lists every key bound to several actions', () =>
+  {
+    const bindings = withBindings({ pause: ['x', 'y'], quit: ['y'], restart: ['x'] })
+
+    expect(() => KeyBindings.validate(bindings)).toThrow(KeyBindingError)
+    expect(() => KeyBindings.validate(bindings)).toThrow('Conflicting key bindings: "x" is bound to pause, restart; "y" is bound to pause, quit')
+  })
+
+  it("ignores player two's keys in a single player game", () =>
+  {
+    const bindings = withBindings({ [Movement.Up]: ['up', 'w'] })
+
+    expect(() => KeyBindings.validate(bindings)).not.toThrow()
+    expect(() => KeyBindings.validate(bindings, true)).toThrow(KeyBindingError)
+  })
+
+  it('is checked when the configuration is built', () =>
+  {
+    expect(() => new GameConfigBuilder().setKeyBinding(Movement.Up, ['up', 'w']).build()).not.toThrow()
+    expect(() => new GameConfigBuilder().setTwoPlayer().setKeyBinding(Movement.Up, ['up', 'w']).build()).toThrow(KeyBindingError)
+  })
+
+  it('parses and normalizes a bindings file', () =>
+  {
+    expect(KeyBindings.parse('{ "up": [" K ", "k", "Up"] }')).toEqual({ up: ['k', 'up'] })
+  })
+
+  it('rejects malformed bindings files', () =>
+  {
+    expect(() => KeyBindings.parse('{')).toThrow(KeyBindingError)
+    expect(() => KeyBindings.parse('[]')).toThrow(KeyBindingError)
+    expect(() => KeyBindings.parse('{ "jump": ["space"] }')).toThrow('Unknown action "jump"')
+    expect(() => KeyBindings.parse('{ "up": "k" }')).toThrow('The keys of "up" must be a list')
+    expect(() => KeyBindings.parse('{ "up": [""] }')).toThrow('Invalid key name')
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test'
+import { Movement } from '@type/global'
+import { LevelLoader, LevelParseError } from '@config/LevelLoader'
+
+/**
+ * Parses a level that is expected to be malformed.
+ *
+ * @param source - The content of the level file.
+ * @returns The error raised by the parser.
+ */
+const parseError = (source: string): LevelParseError =>
+{
+  try
+  {
+    LevelLoader.parse(source)
+  }
+
+  catch (error)
+  {
+    if (error instanceof LevelParseError)
+    {
+      return error
+    }
+
+    throw error
+  }
+
+  throw new Error('The level was parsed without error')
+}
+
+describe('LevelLoader', () =>
+{
+  it('builds the configuration described by the header and grid', () =>
+  {
+    const config = LevelLoader.parse(
+    [
+      'name: Warm Up',
+      'direction: left',
+      'powerups: magnet',
+      'target: 50',
+      '---',
+      '#####',
+      '#.S.#',
+      '#####',
+    ].join('\n'))
+
+    expect(config.level?.name).toBe('Warm Up')
+    expect(config.level?.targetScore).toBe(50)
+    expect(config.board.width).toBe(5)
+    expect(config.board.height).toBe(3)
+    expect(config.board.obstacles).toHaveLength(12)
+    expect(config.game.startPosition).toEqual([2, 1])
+    expect(config.game.startDirection).toBe(Movement.Left)
+    expect(config.powerUps.magnet.enabled).toBe(true)
+    expect(config.powerUps.freeze.enabled).toBe(false)
+  })
+
+  it('reports a missing separator on the last line', () =>
+  {
+    const error = parseError('name: A\nsize: 3x3')
+
+    expect([error.line, error.column]).toEqual([2, 1])
+  })
+
+  it('reports unknown header keys at the key', () =>
+  {
+    const error = parseError('name: A\n  colour: red\n---\n...')
+
+    expect(error.message).toBe("2:3: unknown header key 'colour'")
+  })
+
+  it('reports invalid values at the value', () =>
+  {
+    expect(parseError('direction:   north\n---\n...').message).toStartWith('1:14: invalid direction')
+    expect(parseError('target: 0\n---\n...').message).toBe("1:9: expected an integer of at least 1, got '0'")
+  })
+
+  it('reports unknown power-ups at the entry', () =>
+  {
+    const error = parseError('powerups: magnet, laser\n---\n...')
+
+    expect([error.line, error.column]).toEqual([1, 19])
+  })
+
+  it('reports unexpected grid characters at the character', () =>
+  {
+    const error = parseError('name: A\n---\n...\n.x.')
+
+    expect(error.message).toBe("4:2: unexpected character 'x' in the grid")
+  })
+
+  it('reports a second start marker', () =>
+  {
+    const error = parseError('---\nS..\n..S')
+
+    expect([error.line, error.column]).toEqual([3, 3])
+  })
+
+  it('reports a size that does not match the grid', () =>
+  {
+    const error = parseError('size: 4x2\n---\n...\n...')
+
+    expect(error.message).toBe('1:7: size 4x2 does not match the 3x2 grid')
+  })
+
+  it('reports a start position on a wall', () =>
+  {
+    const error = parseError('start: 0,0\n---\n#..\n...')
+
+    expect(error.message).toBe('1:8: start position 0,0 is a wall')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import { Campaign } from '@core/Campaign'
+import { LevelLoader } from '@config/LevelLoader'
+import { ManualClock } from '@utils/Clock'
+
+/**
+ * Creates a headless level: a corridor the snake runs along until it hits the wall.
+ *
+ * @param name - The name of the level.
+ * @param target - The score that completes the level.
+ * @returns The configuration of the level.
+ */
+const createLevel = (name: string, target: number) => LevelLoader.parse(
+[
+  `name: ${name}`,
+  'direction: right',
+  `target: ${target}`,
+  '---',
+  '##########',
+  '#S.......#',
+  '##########',
+].join('\n'), { game: { difficulty: 'easy', scorePerApple: 5, expandedRange: 1, headless: true } })
+
+describe('Campaign', () =>
+{
+  it('runs headless campaigns in game time', () =>
+  {
+    const campaign = new Campaign([createLevel('A', 10)])
+
+    expect(campaign.getEngine().getClock()).toBeInstanceOf(ManualClock)
+  })
+
+  it('finishes when the snake dies and reports every level played', () =>
+  {
+    const campaign = new Campaign([createLevel('A', 100), createLevel('B', 100)])
+    const finished: boolean[] = []
+
+    campaign.on('finished', (result) => finished.push(result.completed))
+    campaign.start()
+
+    for (let tick = 0; tick < 20 && !campaign.isFinished(); tick++)
+    {
+      campaign.step()
+    }
+
+    expect(campaign.isFinished()).toBe(true)
+    expect(finished).toEqual([false])
+    expect(campaign.getResult().levels).toMatchObject([{ name: 'A', completed: false }])
+    expect(campaign.getEngine().getClock()).toBeInstanceOf(ManualClock)
+    expect((campaign.getEngine().getClock() as ManualClock).getPendingCount()).toBe(0)
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'bun:test'
+import type { Direction, IReplay } from '@type/global'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { GameEngine } from '@core/GameEngine'
+import { ReplayPlayer } from '@core/ReplayPlayer'
+import { REPLAY_VERSION } from '@core/ReplayRecorder'
+
+const TURNS: Direction[] = [[0, -1], [1, 0], [0, 1], [-1, 0]]
+
+/**
+ * Creates a headless game with the power-ups that have timed effects enabled.
+ *
+ * @returns The engine.
+ */
+const createEngine = (): GameEngine =>
+{
+  const config = new GameConfigBuilder()
+    .setHeadless()
+    .setSeed(8)
+    .setBoardSize(12, 12)
+    .enablePowerUp('slowMotion')
+    .enablePowerUp('boost')
+    .enablePowerUp('bonus')
+    .build()
+
+  return new GameEngine(config)
+}
+
+/**
+ * Plays a recorded game back and checks that it ends in the same state.
+ *
+ * @param engine - The engine of the recorded game.
+ * @returns The engine the replay was played on.
+ */
+const expectReplayed = (engine: GameEngine): GameEngine =>
+{
+  const player = new ReplayPlayer(JSON.parse(JSON.stringify(engine.getReplay())) as IReplay)
+  const state = player.run()
+
+  expect(player.getEngine().getTick()).toBe(engine.getTick())
+  expect(state.players).toEqual(engine.getState().players)
+  expect(state.apple).toEqual(engine.getState().apple)
+
+  return player.getEngine()
+}
+
+describe('ReplayPlayer', () =>
+{
+  it('reproduces the turns of a game', () =>
+  {
+    const engine = createEngine()
+
+    for (let tick = 0; tick < 60 && !engine.isGameOver(); tick++)
+    {
+      engine.step(tick % 3 === 0 ? TURNS[tick % TURNS.length] : undefined)
+    }
+
+    expectReplayed(engine)
+  })
+
+  it('reproduces a game played partly by the autopilot', () =>
+  {
+    const engine = createEngine()
+
+    engine.step()
+    engine.toggleAutopilot()
+
+    for (let tick = 0; tick < 100 && !engine.isGameOver(); tick++)
+    {
+      engine.step()
+    }
+
+    engine.toggleAutopilot()
+    engine.step()
+
+    expect(engine.getReplay().inputs.filter((input) => input.type === 'autopilot')).toHaveLength(2)
+
+    expectReplayed(engine)
+  })
+
+  it('waits as long as the game was paused', () =>
+  {
+    const engine = createEngine()
+
+    engine.setAutopilot(true)
+
+    for (let tick = 0; tick < 40; tick++)
+    {
+      engine.step()
+    }
+
+    engine.togglePause()
+
+    for (let tick = 0; tick < 10; tick++)
+    {
+      engine.step()
+    }
+
+    engine.togglePause()
+
+    for (let tick = 0; tick < 40 && !engine.isGameOver(); tick++)
+    {
+      engine.step()
+    }
+
+    expect(expectReplayed(engine).getClock().now()).toBe(engine.getClock().now())
+  })
+
+  it('reproduces a game from its last restart', () =>
+  {
+    const engine = createEngine()
+
+    engine.setAutopilot(true)
+
+    for (let tick = 0; tick < 20; tick++)
+    {
+      engine.step()
+    }
+
+    engine.restart()
+
+    for (let tick = 0; tick < 30; tick++)
+    {
+      engine.step(tick % 5 === 0 ? TURNS[tick % TURNS.length] : undefined)
+    }
+
+    expectReplayed(engine)
+  })
+
+  it('rejects replays of another version', () =>
+  {
+    const replay = { ...createEngine().getReplay(), version: REPLAY_VERSION + 1 }
+
+    expect(() => new ReplayPlayer(replay)).toThrow('Unsupported replay version')
+  })
+})
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import type { IGameState } from '@type/global'
+import { GameConfigBuilder } from '@config/ConfigBuilder'
+import { GameEngine } from '@core/GameEngine'
+import { SAVE_VERSION, SaveGame } from '@core/SaveGame'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const POWER_UPS = ['magnet', 'slowMotion', 'bonus', 'invincibility', 'boost', 'teleport', 'freeze'] as const
+
+/**
+ * Creates a headless game steered by the autopilot with every power-up enabled,
+ * so saves have effects to restore.
+ *
+ * @returns The engine.
+ */
+const createEngine = (): GameEngine =>
+{
+  const builder = new GameConfigBuilder().setHeadless().setSeed(21).setBoardSize(12, 12).setAutopilot()
+
+  POWER_UPS.forEach((type) => builder.enablePowerUp(type))
+
+  return new GameEngine(builder.build())
+}
+
+/**
+ * Picks what a player sees of a game, leaving out times, which a resumed game counts from its own clock.
+ *
+ * @param state - The state of the game.
+ * @returns The board, scores and running effects.
+ */
+const describeState = (state: IGameState) =>
+({
+  players: state.players,
+  apple: state.apple,
+  score: state.score,
+  powerUps: state.powerUps.map(({ position, type }) => ({ position, type })),
+  activePowerUps: state.activePowerUps.map(({ type, duration }) => ({ type, duration })),
+  isGameOver: state.isGameOver,
+  isPaused: state.isPaused
+})
+
+/**
+ * Advances a game.
+ *
+ * @param engine - The engine to advance.
+ * @param ticks - The number of ticks to play.
+ */
+const play = (engine: GameEngine, ticks: number): void =>
+{
+  for (let tick = 0; tick < ticks && !engine.isGameOver(); tick++)
+  {
+    engine.step()
+  }
+}
+
+describe('SaveGame', () =>
+{
+  let directory: string | null = null
+
+  afterEach(() =>
+  {
+    if (directory)
+    {
+      rmSync(directory, { recursive: true, force: true })
+      directory = null
+    }
+  })
+
+  it('resumes a game in the state it was saved in', () =>
+  {
+    const engine = createEngine()
+
+    play(engine, 130)
+
+    expect(engine.getState().activePowerUps.map((powerUp) => powerUp.type)).toEqual(['slowMotion', 'bonus'])
+
+    const resumed = GameEngine.fromSave(JSON.parse(JSON.stringify(engine.createSave())))
+
+    expect(describeState(resumed.getState())).toEqual(describeState(engine.getState()))
+    expect(resumed.getUpdateTime()).toBe(engine.getUpdateTime())
+    expect(resumed.getTick()).toBe(engine.getTick())
+  })
+
+  it('plays on from a save exactly like the saved game', () =>
+  {
+    const engine = createEngine()
+
+    play(engine, 130)
+
+    const resumed = GameEngine.fromSave(JSON.parse(JSON.stringify(engine.createSave())))
+
+    play(engine, 80)
+    play(resumed, 80)
+
+    expect(describeState(resumed.getState())).toEqual(describeState(engine.getState()))
+    expect(resumed.getTick()).toBe(engine.getTick())
+  })
+
+  it('writes and reads save files', () =>
+  {
+    directory = mkdtempSync(join(tmpdir(), 'snake-save-'))
+
+    const path = join(directory, 'save.json')
+    const save = createEngine().createSave()
+
+    SaveGame.save(save, path)
+
+    expect(SaveGame.load(path)).toEqual(JSON.parse(JSON.stringify(save)))
+  })
+
+  it('rejects saves of another version', () =>
+  {
+    directory = mkdtempSync(join(tmpdir(), 'snake-save-'))
+
+    const path = join(directory, 'save.json')
+
+    writeFileSync(path, JSON.stringify({ ...createEngine().createSave(), version: SAVE_VERSION + 1 }))
+
+    expect(() => SaveGame.load(path)).toThrow('Unsupported save version')
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'bun:test'
+import { SnakeEnv } from '@core/SnakeEnv'
+
+/**
+ * Absolute actions, by name.
+ */
+const UP = 0
+const RIGHT = 1
+const DOWN = 2
+const LEFT = 3
+
+/**
+ * Picks the absolute action moving the snake of an environment towards the apple.
+ *
+ * @param env - The environment.
+ * @returns The index of the action.
+ */
+const towardsApple = (env: SnakeEnv): number =>
+{
+  const { apple, snake } = env.getEngine().getState()
+  const [x, y] = snake[0]!
+
+  if (apple[0] !== x)
+  {
+    return apple[0] > x ? RIGHT : LEFT
+  }
+
+  return apple[1] > y ? DOWN : UP
+}
+
+describe('SnakeEnv', () =>
+{
+  it('costs a step for each tick without event', () =>
+  {
+    const env = new SnakeEnv({ observation: 'features' })
+
+    env.reset(1)
+
+    const result = env.step(UP)
+
+    expect(result.reward).toBeCloseTo(-0.01)
+    expect(result.done).toBe(false)
+    expect(result.observation.data).toHaveLength(14)
+  })
+
+  it('rewards eating the apple', () =>
+  {
+    const env = new SnakeEnv({ config: { board: { width: 10, height: 10 } }, rewards: { apple: 2, step: 0 } })
+
+    env.reset(3)
+
+    let result = env.step(towardsApple(env))
+
+    while (result.info.apples === 0)
+    {
+      expect(result.reward).toBe(0)
+
+      result = env.step(towardsApple(env))
+    }
+
+    expect(result.reward).toBe(2)
+    expect(result.info.apples).toBe(1)
+  })
+
+  it('penalizes dying and ends the episode', () =>
+  {
+    const env = new SnakeEnv({ config: { board: { width: 5, height: 5, edges: 'walls' }, game: { difficulty: 'easy', scorePerApple: 5, expandedRange: 1, startPosition: [2, 0] } } })
+
+    env.reset(1)
+
+    const result = env.step(UP)
+
+    expect(result.reward).toBeCloseTo(-1.01)
+    expect(result.done).toBe(true)
+    expect(result.info.cause).toBe('wall')
+    expect(result.info.truncated).toBe(false)
+    expect(env.step(UP).reward).toBe(0)
+  })
+
+  it('truncates episodes at the step limit', () =>
+  {
+    const env = new SnakeEnv({ maxSteps: 3 })
+
+    env.reset(1)
+    env.step(UP)
+    env.step(UP)
+
+    const result = env.step(UP)
+
+    expect(result.done).toBe(true)
+    expect(result.info.truncated).toBe(true)
+  })
+
+  it('plays the same episode for the same seed', () =>
+  {
+    const play = (): number[] =>
+    {
+      const env = new SnakeEnv({ observation: 'relative', actions: 'relative', maxSteps: 50 })
+      const rewards: number[] = []
+
+      env.reset(11)
+
+      for (let step = 0; step < 50; step++)
+      {
+        rewards.push(env.step(step % 3).reward)
+      }
+
+      return rewards
+    }
+
+    expect(play()).toEqual(play())
+  })
+
+  it('rejects actions outside the action space', () =>
+  {
+    const env = new SnakeEnv({ actions: 'relative' })
+
+    env.reset(1)
+
+    expect(() => env.step(3)).toThrow('Invalid action 3')
+  })
+})
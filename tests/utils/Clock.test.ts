@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'bun:test'
+import { ManualClock } from '@utils/Clock'
+
+describe('ManualClock', () =>
+{
+  it('only moves when advanced', () =>
+  {
+    const clock = new ManualClock(100)
+
+    expect(clock.now()).toBe(100)
+
+    clock.advance(50)
+
+    expect(clock.now()).toBe(150)
+  })
+
+  it('fires timeouts that fall due, in due-time order', () =>
+  {
+    const clock = new ManualClock()
+    const fired: string[] = []
+
+    clock.setTimeout(() => fired.push('late'), 300)
+    clock.setTimeout(() => fired.push('early'), 100)
+    clock.setTimeout(() => fired.push('never'), 1000)
+
+    clock.advance(500)
+
+    expect(fired).toEqual(['early', 'late'])
+    expect(clock.getPendingCount()).toBe(1)
+  })
+
+  it('fires timers due at the same time in the order they were scheduled', () =>
+  {
+    const clock = new ManualClock()
+    const fired: number[] = []
+
+    clock.setTimeout(() => fired.push(1), 100)
+    clock.setTimeout(() => fired.push(2), 100)
+
+    clock.advance(100)
+
+    expect(fired).toEqual([1, 2])
+  })
+
+  it('runs the callback at the due time, not the target time', () =>
+  {
+    const clock = new ManualClock()
+    let firedAt = -1
+
+    clock.setTimeout(() =>
+    {
+      firedAt = clock.now()
+    }, 40)
+
+    clock.advance(100)
+
+    expect(firedAt).toBe(40)
+    expect(clock.now()).toBe(100)
+  })
+
+  it('fires an interval once per period crossed', () =>
+  {
+    const clock = new ManualClock()
+    let count = 0
+
+    const handle = clock.setInterval(() => count++, 100)
+
+    clock.advance(350)
+
+    expect(count).toBe(3)
+
+    clock.clearInterval(handle)
+    clock.advance(1000)
+
+    expect(count).toBe(3)
+  })
+
+  it('fires timers scheduled by a callback if they fall due within the advance', () =>
+  {
+    const clock = new ManualClock()
+    const fired: number[] = []
+
+    clock.setTimeout(() =>
+    {
+      fired.push(clock.now())
+      clock.setTimeout(() => fired.push(clock.now()), 50)
+    }, 100)
+
+    clock.advance(200)
+
+    expect(fired).toEqual([100, 150])
+  })
+
+  it('does not fire cleared timeouts', () =>
+  {
+    const clock = new ManualClock()
+    let fired = false
+
+    const handle = clock.setTimeout(() =>
+    {
+      fired = true
+    }, 10)
+
+    clock.clearTimeout(handle)
+    clock.advance(100)
+
+    expect(fired).toBe(false)
+  })
+
+  it('jumps straight to the next timer', () =>
+  {
+    const clock = new ManualClock()
+
+    clock.setTimeout(() => {}, 250)
+
+    expect(clock.advanceToNextTimer()).toBe(true)
+    expect(clock.now()).toBe(250)
+    expect(clock.advanceToNextTimer()).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test'
+import type { Direction } from '@type/global'
+import { DirectionQueue } from '@utils/DirectionQueue'
+
+const UP: Direction = [0, -1]
+const DOWN: Direction = [0, 1]
+const LEFT: Direction = [-1, 0]
+const RIGHT: Direction = [1, 0]
+
+describe('DirectionQueue', () =>
+{
+  it('hands out one queued turn per tick, in order', () =>
+  {
+    const queue = new DirectionQueue()
+
+    queue.push(UP, RIGHT)
+    queue.push(LEFT, RIGHT)
+
+    expect(queue.next(RIGHT)).toEqual(UP)
+    expect(queue.next(UP)).toEqual(LEFT)
+    expect(queue.next(LEFT)).toBeNull()
+  })
+
+  it('drops turns that keep the direction or reverse it after the queued ones', () =>
+  {
+    const queue = new DirectionQueue()
+
+    expect(queue.push(RIGHT, RIGHT)).toBe(false)
+    expect(queue.push(LEFT, RIGHT)).toBe(false)
+    expect(queue.push(UP, RIGHT)).toBe(true)
+    expect(queue.push(DOWN, RIGHT)).toBe(false)
+    expect(queue.size()).toBe(1)
+  })
+
+  it('lets a single segment snake reverse', () =>
+  {
+    const queue = new DirectionQueue()
+
+    expect(queue.push(LEFT, RIGHT, true)).toBe(true)
+    expect(queue.next(RIGHT, true)).toEqual(LEFT)
+  })
+
+  it('skips turns that are no longer valid when taken', () =>
+  {
+    const queue = new DirectionQueue()
+
+    queue.push(UP)
+    queue.push(LEFT)
+
+    expect(queue.next(DOWN)).toEqual(LEFT)
+  })
+
+  it('drops turns once full', () =>
+  {
+    const queue = new DirectionQueue(2)
+
+    expect(queue.push(UP, RIGHT)).toBe(true)
+    expect(queue.push(LEFT, RIGHT)).toBe(true)
+    expect(queue.push(DOWN, RIGHT)).toBe(false)
+  })
+
+  it('forgets every turn when cleared', () =>
+  {
+    const queue = new DirectionQueue()
+
+    queue.push(UP, RIGHT)
+    queue.clear()
+
+    expect(queue.size()).toBe(0)
+    expect(queue.next(RIGHT)).toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test'
+import { SeededRandom } from '@utils/Random'
+
+const take = (random: SeededRandom, count: number): number[] => Array.from({ length: count }, () => random.next())
+
+describe('SeededRandom', () =>
+{
+  it('produces the same sequence for the same seed', () =>
+  {
+    expect(take(new SeededRandom(42), 20)).toEqual(take(new SeededRandom(42), 20))
+  })
+
+  it('produces different sequences for different seeds', () =>
+  {
+    expect(take(new SeededRandom(1), 5)).not.toEqual(take(new SeededRandom(2), 5))
+  })
+
+  it('stays within [0, 1)', () =>
+  {
+    take(new SeededRandom(7), 1000).forEach((value) =>
+    {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+
+  it('resumes the sequence from a saved state', () =>
+  {
+    const random = new SeededRandom(3)
+
+    take(random, 10)
+
+    const state = random.getState()
+    const expected = take(random, 5)
+    const resumed = new SeededRandom(99)
+
+    resumed.setState(state)
+
+    expect(take(resumed, 5)).toEqual(expected)
+  })
+
+  it('restarts the sequence on reset, with a new seed if given', () =>
+  {
+    const random = new SeededRandom(5)
+    const first = take(random, 5)
+
+    random.reset()
+
+    expect(take(random, 5)).toEqual(first)
+
+    random.reset(6)
+
+    expect(random.getSeed()).toBe(6)
+    expect(take(random, 5)).toEqual(take(new SeededRandom(6), 5))
+  })
+
+  it('keeps seeds as unsigned 32-bit integers', () =>
+  {
+    expect(new SeededRandom(-1).getSeed()).toBe(4294967295)
+  })
+})